@@ -50,6 +50,9 @@ async function main() {
 	console.log("Creating RealTimeVAD...");
 
 	const vad = await RealTimeVAD.new({
+		// The mic delivers signed 16-bit little-endian samples
+		inputFormat: "s16le",
+
 		// Speech detection settings
 		positiveSpeechThreshold: 0.3,
 		negativeSpeechThreshold: 0.2,
@@ -102,36 +105,13 @@ async function main() {
 	const micInputStream = micInstance.getAudioStream();
 	console.log("🎤 Microphone started - listening for speech...");
 
-	// Set up buffer processing
-	const FRAME_SIZE = 480; // Default frame size for StreamVAD
-	let audioBuffer = new Float32Array(FRAME_SIZE);
-	let bufferIndex = 0;
-
-	// Process microphone data
+	// Process microphone data: the mic delivers raw 16-bit PCM, which the VAD
+	// decodes itself (chunks may split a sample across two Buffers)
 	micInputStream.on("data", async (data: Buffer) => {
-		// Convert the incoming PCM data to float32
-		const int16Data = new Int16Array(new Uint8Array(data).buffer);
-
-		for (let i = 0; i < int16Data.length; i++) {
-			// Convert Int16 to Float32 (-1.0 to 1.0)
-			const sample = int16Data[i] / 32768.0;
-
-			// Add to the current frame buffer
-			audioBuffer[bufferIndex++] = sample;
-
-			// When the buffer is full, process it
-			if (bufferIndex >= FRAME_SIZE) {
-				try {
-					// Process the frame with the VAD
-					await vad.processAudio(audioBuffer);
-				} catch (err) {
-					console.error("Error processing frame:", err);
-				}
-
-				// Reset for the next frame
-				audioBuffer = new Float32Array(FRAME_SIZE);
-				bufferIndex = 0;
-			}
+		try {
+			await vad.processAudio(data);
+		} catch (err) {
+			console.error("Error processing audio:", err);
 		}
 	});
 
@@ -143,14 +123,7 @@ async function main() {
 		console.log("\nStopping microphone...");
 		micInstance.stop();
 
-		// Process any remaining audio
-		if (bufferIndex > 0) {
-			const paddedBuffer = new Float32Array(FRAME_SIZE);
-			paddedBuffer.set(audioBuffer.slice(0, bufferIndex));
-			await vad.processAudio(paddedBuffer);
-		}
-
-		// Clean up
+		// Process any remaining audio and clean up
 		await vad.flush();
 		vad.destroy();
 
@@ -0,0 +1,112 @@
+/**
+ * Throughput and garbage collection of the audio path, from the input chunks
+ * to the frames handed to the model.
+ *
+ *   npm run build && node scripts/benchmark.js [distDir]
+ *
+ * Pass the dist directory of another build to compare before/after.
+ */
+const path = require("node:path");
+const { PerformanceObserver, performance } = require("node:perf_hooks");
+
+const dist = path.resolve(process.argv[2] ?? path.join(__dirname, "../dist"));
+const vad = require(dist);
+
+const INPUT_RATE = 44100;
+const CHUNK = 4410; // 100ms
+const SECONDS = 120;
+const STREAMS = 8;
+
+function noise(seconds) {
+	const audio = new Float32Array(INPUT_RATE * seconds);
+	let seed = 1;
+	for (let i = 0; i < audio.length; i++) {
+		seed = (seed * 16807) % 2147483647;
+		audio[i] = (seed / 2147483647) * 2 - 1;
+	}
+	return audio;
+}
+
+/** Run `fn` and report its speed relative to real time and its GC pauses */
+async function measure(name, seconds, fn) {
+	const gc = { count: 0, ms: 0 };
+	const observer = new PerformanceObserver((list) => {
+		for (const entry of list.getEntries()) {
+			gc.count++;
+			gc.ms += entry.duration;
+		}
+	});
+	observer.observe({ entryTypes: ["gc"] });
+	const start = performance.now();
+	await fn();
+	const elapsed = performance.now() - start;
+	// gc entries are delivered asynchronously
+	await new Promise((resolve) => setTimeout(resolve, 50));
+	observer.disconnect();
+	console.log(
+		`${name.padEnd(34)} ${((seconds * 1000) / elapsed).toFixed(0).padStart(7)}x real time` +
+			`  ${String(gc.count).padStart(4)} GCs  ${gc.ms.toFixed(1).padStart(7)}ms in GC`,
+	);
+}
+
+/** A model answering instantly, so that only the audio path is measured */
+const nullModel = {
+	process: async () => ({ isSpeech: 0, notSpeech: 1 }),
+	reset_state: () => {},
+};
+
+class BenchVAD extends vad.RealTimeVAD {
+	static create(options) {
+		const full = {
+			...vad.getDefaultRealTimeVADOptions("v5"),
+			...options,
+		};
+		return new BenchVAD(full, nullModel);
+	}
+}
+
+async function main() {
+	const audio = noise(SECONDS);
+	console.log(`audio path benchmark: ${dist}\n`);
+
+	for (const quality of ["fast", "medium", "high"]) {
+		await measure(`Resampler ${quality}`, SECONDS, () => {
+			const resampler = new vad.Resampler({
+				nativeSampleRate: INPUT_RATE,
+				targetSampleRate: 16000,
+				targetFrameSize: 512,
+				quality,
+			});
+			for (let i = 0; i < audio.length; i += CHUNK) {
+				resampler.process(audio.subarray(i, i + CHUNK));
+			}
+		});
+	}
+
+	for (const sampleRate of [16000, INPUT_RATE]) {
+		const input = sampleRate === INPUT_RATE ? audio : noise(SECONDS / 2.75625);
+		const chunk = (sampleRate * CHUNK) / INPUT_RATE;
+		const seconds = input.length / sampleRate;
+		await measure(
+			`RealTimeVAD ${sampleRate}Hz x${STREAMS} streams`,
+			seconds * STREAMS,
+			async () => {
+				const streams = [];
+				for (let s = 0; s < STREAMS; s++) {
+					const stream = BenchVAD.create({ sampleRate });
+					stream.start();
+					streams.push(stream);
+				}
+				for (let i = 0; i < input.length; i += chunk) {
+					const data = input.subarray(i, i + chunk);
+					await Promise.all(streams.map((s) => s.processAudio(data)));
+				}
+			},
+		);
+	}
+}
+
+main().catch((e) => {
+	console.error(e);
+	process.exit(1);
+});
@@ -0,0 +1,328 @@
+import type * as ort from "onnxruntime-node";
+import {
+	type Model,
+	type ModelState,
+	type ModelStateTensor,
+	type SpeechProbabilities,
+	type VADModelDescriptor,
+	shapeSize,
+	withContext,
+} from "./common";
+import { getModelDescriptor } from "./model-registry";
+import type { ModelVersion } from "./real-time-vad";
+
+export interface BatchSchedulerOptions {
+	/** Maximum number of frames run in a single `session.run` */
+	maxBatchSize: number;
+	/** Maximum time a frame waits for other streams before its batch is run */
+	maxWaitMs: number;
+	/** Sample rate of the submitted frames */
+	sampleRate: number;
+}
+
+/**
+ * A state tensor seen as [outer, batch, inner], where `outer` and `inner`
+ * are the products of the dimensions before and after the batch axis
+ */
+interface StateLayout {
+	tensor: ModelStateTensor;
+	outer: number;
+	inner: number;
+}
+
+const getStateLayout = (tensor: ModelStateTensor): StateLayout => ({
+	tensor,
+	outer: shapeSize(tensor.shape.slice(0, tensor.batchAxis)),
+	inner: shapeSize(tensor.shape.slice(tensor.batchAxis + 1)),
+});
+
+interface PendingFrame {
+	model: BatchedModel;
+	frame: Float32Array;
+	/** `model.generation` when the frame was submitted */
+	generation: number;
+	resolve: (probs: SpeechProbabilities) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Model handed out by a BatchScheduler. It keeps the recurrent state of one
+ * stream and submits its frames to the scheduler instead of running them
+ * on its own.
+ */
+export class BatchedModel implements Model {
+	/** One array per state tensor, laid out as in the descriptor */
+	state: Float32Array[];
+	/** End of the previous frame, for models that need it */
+	context: Float32Array;
+	/**
+	 * Incremented whenever the state is replaced, so that frames submitted
+	 * before do not write their output state over the new one
+	 */
+	generation = 0;
+
+	constructor(
+		private scheduler: BatchScheduler,
+		private layout: StateLayout[],
+		private contextSize: number,
+	) {
+		this.state = this.newState();
+		this.context = new Float32Array(contextSize);
+	}
+
+	reset_state = () => {
+		this.state = this.newState();
+		this.context = new Float32Array(this.contextSize);
+		this.generation++;
+	};
+
+	process = (audioFrame: Float32Array): Promise<SpeechProbabilities> => {
+		return this.scheduler.submit(this, audioFrame);
+	};
+
+	getState = (): ModelState => ({
+		tensors: this.state.map((tensor) => Array.from(tensor)),
+		context: Array.from(this.context),
+	});
+
+	restoreState = (state: ModelState) => {
+		this.state = state.tensors.map((tensor) => new Float32Array(tensor));
+		this.context = new Float32Array(state.context);
+		this.generation++;
+	};
+
+	private newState(): Float32Array[] {
+		return this.layout.map(
+			({ outer, inner }) => new Float32Array(outer * inner),
+		);
+	}
+}
+
+/**
+ * Collects frames submitted by many models sharing one session and runs
+ * them as a single batch, with the state tensors of every stream stacked
+ * along the batch dimension.
+ *
+ * A batch is run as soon as `maxBatchSize` frames are pending or every
+ * active stream has submitted a frame, and otherwise after `maxWaitMs`.
+ * Active streams are those with a frame pending or running, or whose frame
+ * was returned since the last batch started: a stream that stops submitting
+ * delays the others by `maxWaitMs` once, not on every frame.
+ */
+export class BatchScheduler {
+	options: BatchSchedulerOptions;
+	/** Number of `session.run` calls made so far */
+	batches = 0;
+	/** Number of frames processed so far */
+	frames = 0;
+	private descriptor: VADModelDescriptor;
+	private layout: StateLayout[];
+	private models = new Set<BatchedModel>();
+	private active = new Set<BatchedModel>();
+	/** Models with a frame in a batch being run */
+	private running = new Set<BatchedModel>();
+	private pending: PendingFrame[] = [];
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private sr: ort.Tensor;
+	private closed = false;
+
+	constructor(
+		private ortInstance: typeof ort,
+		private session: ort.InferenceSession,
+		modelVersion: ModelVersion,
+		options: Partial<BatchSchedulerOptions> = {},
+	) {
+		this.options = {
+			maxBatchSize: 32,
+			maxWaitMs: 5,
+			sampleRate: 16000,
+			...options,
+		};
+		if (this.options.maxBatchSize < 1) {
+			throw new Error(
+				`maxBatchSize must be at least 1, got ${this.options.maxBatchSize}`,
+			);
+		}
+		this.descriptor = getModelDescriptor(modelVersion);
+		this.layout = this.descriptor.state.map(getStateLayout);
+		this.sr = new ortInstance.Tensor("int64", [
+			BigInt(this.options.sampleRate),
+		]);
+	}
+
+	/** Create a model with fresh state whose frames are batched by this scheduler */
+	createModel(): BatchedModel {
+		if (this.closed) {
+			throw new Error("BatchScheduler has been closed");
+		}
+		const model = new BatchedModel(
+			this,
+			this.layout,
+			this.descriptor.contextSamples?.[this.options.sampleRate] ?? 0,
+		);
+		this.models.add(model);
+		return model;
+	}
+
+	/**
+	 * Stop batching for a model. Returns false if the model was not created by
+	 * this scheduler.
+	 */
+	remove(model: Model): boolean {
+		if (!this.models.delete(model as BatchedModel)) return false;
+		this.active.delete(model as BatchedModel);
+		// the remaining streams may all be waiting on the removed one
+		this.schedule();
+		return true;
+	}
+
+	/** Reject pending frames and refuse further ones */
+	close(): void {
+		this.closed = true;
+		this.models.clear();
+		this.active.clear();
+		this.clearTimer();
+		const error = new Error("BatchScheduler has been closed");
+		for (const p of this.pending.splice(0)) {
+			p.reject(error);
+		}
+	}
+
+	submit(
+		model: BatchedModel,
+		frame: Float32Array,
+	): Promise<SpeechProbabilities> {
+		if (this.closed) {
+			return Promise.reject(new Error("BatchScheduler has been closed"));
+		}
+		return new Promise((resolve, reject) => {
+			this.pending.push({
+				model,
+				frame,
+				generation: model.generation,
+				resolve,
+				reject,
+			});
+			this.active.add(model);
+			this.schedule();
+		});
+	}
+
+	private schedule(): void {
+		if (this.pending.length === 0) return;
+		const target = Math.min(this.options.maxBatchSize, this.active.size);
+		if (this.pending.length >= target) {
+			this.clearTimer();
+			this.runPending();
+		} else if (this.timer === null) {
+			this.timer = setTimeout(() => {
+				this.timer = null;
+				this.runPending();
+			}, this.options.maxWaitMs);
+		}
+	}
+
+	private clearTimer(): void {
+		if (this.timer !== null) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private runPending(): void {
+		// streams that did not submit since the last batch are idle
+		this.active = new Set(
+			this.pending.map((p) => p.model).concat(Array.from(this.running)),
+		);
+		while (this.pending.length > 0) {
+			const batch = this.pending.splice(0, this.options.maxBatchSize);
+			// frames of different lengths cannot share an input tensor
+			const byLength = new Map<number, PendingFrame[]>();
+			for (const p of batch) {
+				const group = byLength.get(p.frame.length);
+				if (group) group.push(p);
+				else byLength.set(p.frame.length, [p]);
+			}
+			for (const group of Array.from(byLength.values())) {
+				for (const p of group) this.running.add(p.model);
+				this.runBatch(group)
+					.catch((e) => {
+						for (const p of group) p.reject(e as Error);
+					})
+					.finally(() => {
+						for (const p of group) this.running.delete(p.model);
+					});
+			}
+		}
+	}
+
+	private async runBatch(batch: PendingFrame[]): Promise<void> {
+		const { input, output, sampleRateInput } = this.descriptor;
+		const n = batch.length;
+		const inputs = batch.map(({ model, frame, generation }) => {
+			const [input, context] = withContext(model.context, frame);
+			if (generation === model.generation) model.context = context;
+			return input;
+		});
+		const frameLength = (inputs[0] as Float32Array).length;
+
+		const audio = new Float32Array(n * frameLength);
+		for (let b = 0; b < n; b++) {
+			audio.set(inputs[b] as Float32Array, b * frameLength);
+		}
+		const feeds: Record<string, ort.Tensor> = {
+			[input]: new this.ortInstance.Tensor("float32", audio, [n, frameLength]),
+		};
+		if (sampleRateInput) feeds[sampleRateInput] = this.sr;
+		for (let i = 0; i < this.layout.length; i++) {
+			const { tensor, outer, inner } = this.layout[i] as StateLayout;
+			const stacked = new Float32Array(outer * n * inner);
+			for (let b = 0; b < n; b++) {
+				const state = (batch[b] as PendingFrame).model.state[i] as Float32Array;
+				for (let o = 0; o < outer; o++) {
+					stacked.set(
+						state.subarray(o * inner, (o + 1) * inner),
+						(o * n + b) * inner,
+					);
+				}
+			}
+			const shape = tensor.shape.slice();
+			shape[tensor.batchAxis] = n;
+			feeds[tensor.input] = new this.ortInstance.Tensor(
+				"float32",
+				stacked,
+				shape,
+			);
+		}
+
+		const out = await this.session.run(feeds);
+		this.batches++;
+		this.frames += n;
+
+		const probs = out[output]?.data as Float32Array;
+		const states = this.layout.map(
+			({ tensor }) => out[tensor.output]?.data as Float32Array,
+		);
+		for (let b = 0; b < n; b++) {
+			const p = batch[b] as PendingFrame;
+			const isSpeech = probs[b] as number;
+			// the stream was reset after submitting the frame
+			if (p.generation !== p.model.generation) {
+				p.resolve({ notSpeech: 1 - isSpeech, isSpeech });
+				continue;
+			}
+			p.model.state = states.map((stacked, i) => {
+				const { outer, inner } = this.layout[i] as StateLayout;
+				const state = new Float32Array(outer * inner);
+				for (let o = 0; o < outer; o++) {
+					state.set(
+						stacked.subarray((o * n + b) * inner, (o * n + b + 1) * inner),
+						o * inner,
+					);
+				}
+				return state;
+			});
+			p.resolve({ notSpeech: 1 - isSpeech, isSpeech });
+		}
+	}
+}
@@ -0,0 +1,110 @@
+import { deinterleave } from "./common/utils";
+
+/**
+ * How multi-channel input is reduced to the mono signal fed to the model:
+ * - `downmix`: average all channels
+ * - `{ select: n }`: use channel `n` (zero-based) only
+ * - `max-energy`: per chunk, use the channel with the highest energy
+ */
+export type ChannelStrategy = "downmix" | "max-energy" | { select: number };
+
+/** What is wrong with `strategy` for `channels`-channel input, or null if it is valid */
+export function getChannelStrategyError(
+	channels: number,
+	strategy: ChannelStrategy,
+): string | null {
+	if (strategy === "downmix" || strategy === "max-energy") {
+		return null;
+	}
+	if (typeof strategy !== "object" || strategy === null) {
+		return `channelStrategy should be one of downmix, max-energy or { select }, got ${String(strategy)}`;
+	}
+	return Number.isInteger(strategy.select) &&
+		strategy.select >= 0 &&
+		strategy.select < channels
+		? null
+		: `Selected channel ${strategy.select} does not exist in ${channels}-channel input`;
+}
+
+/**
+ * Reduces interleaved multi-channel audio to mono.
+ *
+ * Chunks do not need to contain whole frames: trailing samples of an
+ * incomplete frame are kept and prepended to the next chunk.
+ */
+export class ChannelMixer {
+	private remainder = new Float32Array(0);
+
+	constructor(
+		public readonly channels: number,
+		public readonly strategy: ChannelStrategy,
+	) {
+		if (!Number.isInteger(channels) || channels < 1) {
+			throw new Error(`channels should be a positive integer, got ${channels}`);
+		}
+		const strategyError = getChannelStrategyError(channels, strategy);
+		if (strategyError !== null) {
+			throw new Error(strategyError);
+		}
+	}
+
+	mix(interleaved: Float32Array): Float32Array {
+		let data = interleaved;
+		if (this.remainder.length > 0) {
+			data = new Float32Array(this.remainder.length + interleaved.length);
+			data.set(this.remainder);
+			data.set(interleaved, this.remainder.length);
+		}
+		const frameCount = Math.floor(data.length / this.channels);
+		this.remainder = data.slice(frameCount * this.channels);
+
+		const channelData = deinterleave(data, this.channels);
+		if (typeof this.strategy === "object") {
+			return channelData[this.strategy.select] as Float32Array;
+		}
+		if (this.strategy === "max-energy") {
+			return maxEnergyChannel(channelData);
+		}
+		return downmix(channelData, frameCount);
+	}
+
+	/** Drop any incomplete frame held back from the previous chunk */
+	reset(): void {
+		this.remainder = new Float32Array(0);
+	}
+
+	/** Samples of the incomplete frame held back, for `restoreState` */
+	getState(): number[] {
+		return Array.from(this.remainder);
+	}
+
+	restoreState(samples: number[]): void {
+		this.remainder = new Float32Array(samples);
+	}
+}
+
+function downmix(channelData: Float32Array[], length: number): Float32Array {
+	const output = new Float32Array(length);
+	for (const channel of channelData) {
+		for (let i = 0; i < length; i++) {
+			output[i] += (channel[i] as number) / channelData.length;
+		}
+	}
+	return output;
+}
+
+function maxEnergyChannel(channelData: Float32Array[]): Float32Array {
+	let best = channelData[0] as Float32Array;
+	let bestEnergy = -1;
+	for (const channel of channelData) {
+		let energy = 0;
+		for (let i = 0; i < channel.length; i++) {
+			energy += (channel[i] as number) * (channel[i] as number);
+		}
+		if (energy > bestEnergy) {
+			best = channel;
+			bestEnergy = energy;
+		}
+	}
+	return best;
+}
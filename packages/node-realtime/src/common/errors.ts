@@ -0,0 +1,53 @@
+/**
+ * Base class of the errors below
+ */
+export class VADError extends Error {
+	constructor(message: string) {
+		super(message);
+		// keep instanceof working when compiled to ES5
+		Object.setPrototypeOf(this, new.target.prototype);
+	}
+}
+
+/**
+ * Thrown when the VAD model cannot be read or is not a valid ONNX model
+ */
+export class ModelLoadError extends VADError {
+	constructor(message: string) {
+		super(message);
+		this.name = "ModelLoadError";
+	}
+}
+
+/**
+ * Thrown by `updateOptions` for options that cannot be changed on a running
+ * instance, such as `frameSamples` or `sampleRate`
+ */
+export class OptionsUpdateError extends VADError {
+	constructor(public readonly options: string[]) {
+		super(
+			`Options cannot be changed on a running VAD: ${options.join(", ")}; create a new instance instead`,
+		);
+		this.name = "OptionsUpdateError";
+	}
+}
+
+/** An invalid option found while validating a configuration */
+export interface VADConfigViolation {
+	/** Name of the offending option */
+	field: string;
+	message: string;
+}
+
+/**
+ * Thrown with `strict` options for an invalid configuration, listing every
+ * violation found
+ */
+export class VADConfigError extends VADError {
+	constructor(public readonly violations: VADConfigViolation[]) {
+		super(
+			`Invalid VAD options:\n${violations.map((v) => `  - ${v.message}`).join("\n")}`,
+		);
+		this.name = "VADConfigError";
+	}
+}
@@ -0,0 +1,55 @@
+import { EventEmitter } from "node:events";
+
+export type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * EventEmitter whose event names and listener arguments are checked against
+ * an event map of the form `{ eventName: [arg1, arg2] }`.
+ */
+export class TypedEventEmitter<Events extends Record<keyof Events, unknown[]>> {
+	private emitter = new EventEmitter();
+
+	/** Subscribe to an event */
+	on<K extends keyof Events & string>(
+		event: K,
+		listener: Listener<Events[K]>,
+	): this {
+		this.emitter.on(event, listener as Listener<unknown[]>);
+		return this;
+	}
+
+	/** Subscribe to the next occurrence of an event only */
+	once<K extends keyof Events & string>(
+		event: K,
+		listener: Listener<Events[K]>,
+	): this {
+		this.emitter.once(event, listener as Listener<unknown[]>);
+		return this;
+	}
+
+	/** Unsubscribe a listener previously added with `on` or `once` */
+	off<K extends keyof Events & string>(
+		event: K,
+		listener: Listener<Events[K]>,
+	): this {
+		this.emitter.off(event, listener as Listener<unknown[]>);
+		return this;
+	}
+
+	/** Unsubscribe all listeners of an event, or of every event */
+	removeAllListeners(event?: keyof Events & string): this {
+		this.emitter.removeAllListeners(event);
+		return this;
+	}
+
+	listenerCount(event: keyof Events & string): number {
+		return this.emitter.listenerCount(event);
+	}
+
+	protected emit<K extends keyof Events & string>(
+		event: K,
+		...args: Events[K]
+	): boolean {
+		return this.emitter.emit(event, ...args);
+	}
+}
@@ -3,11 +3,30 @@ Some of this code, together with the default options found in index.ts,
 were taken (or took inspiration) from https://github.com/snakers4/silero-vad
 */
 
+import { VADConfigError, type VADConfigViolation } from "./errors";
 import { log } from "./logging";
 import { Message } from "./messages";
 import type { SpeechProbabilities } from "./models";
+import {
+	NoiseFloor,
+	type SpeechThresholds,
+	frameEnergyDb,
+} from "./noise-floor";
+import {
+	NO_SMOOTHING,
+	type Smoother,
+	type SmootherState,
+	type SmoothingOptions,
+	createSmoother,
+	getSmoothingError,
+} from "./smoothing";
+import { minFramesForTargetMS } from "./utils";
 
-const RECOMMENDED_FRAME_SAMPLES = [512, 1024, 1536];
+/** Frame sizes the Silero models were trained with, for each sample rate */
+const RECOMMENDED_FRAME_SAMPLES: Record<number, number[]> = {
+	16000: [512, 1024, 1536],
+	8000: [256, 512, 768],
+};
 
 export interface FrameProcessorOptions {
 	/** Threshold over which values returned by the Silero VAD model will be considered as positively indicating speech.
@@ -24,78 +43,443 @@ export interface FrameProcessorOptions {
 	 * before running `onSpeechEnd`. If the model returns a value over `positiveSpeechThreshold` during this grace period, then
 	 * the algorithm will consider the previously-detected "speech end" as having been a false negative.
 	 */
-	redemptionFrames: number;
+	redemptionFrames?: number;
+
+	/** Same as `redemptionFrames`, in milliseconds. Only one of the two can be set. */
+	redemptionMs?: number;
 
-	/** Number of audio samples (under a sample rate of 16000) to comprise one "frame" to feed to the Silero VAD model.
+	/** Number of audio samples (at `modelSampleRate`) to comprise one "frame" to feed to the Silero VAD model.
 	 * The `frame` serves as a unit of measurement of lengths of audio segments and many other parameters are defined in terms of
 	 * frames. The authors of the Silero VAD model offer the following warning:
 	 * > WARNING! Silero VAD models were trained using 512, 1024, 1536 samples for 16000 sample rate and 256, 512, 768 samples for 8000 sample rate.
 	 * > Values other than these may affect model perfomance!!
-	 * In this context, audio fed to the VAD model always has sample rate 16000. It is probably a good idea to leave this at 1536.
+	 * In this context, audio fed to the VAD model has sample rate `modelSampleRate`. It is probably a good idea to leave this at 1536
+	 * (768 at 8000Hz).
 	 */
 	frameSamples: number;
 
+	/** Sample rate of the audio fed to the model: 16000, or 8000 to run the Silero models directly on telephony audio. */
+	modelSampleRate: number;
+
 	/** Number of frames to prepend to the audio segment that will be passed to `onSpeechEnd`. */
-	preSpeechPadFrames: number;
+	preSpeechPadFrames?: number;
+
+	/** Same as `preSpeechPadFrames`, in milliseconds. Only one of the two can be set. */
+	preSpeechPadMs?: number;
 
 	/** If an audio segment is detected as a speech segment according to initial algorithm but it has fewer than `minSpeechFrames`,
 	 * it will be discarded and `onVADMisfire` will be run instead of `onSpeechEnd`.
 	 */
-	minSpeechFrames: number;
+	minSpeechFrames?: number;
+
+	/** Same as `minSpeechFrames`, in milliseconds. Only one of the two can be set. */
+	minSpeechMs?: number;
+
+	/** Number of frames after the last speech frame to keep at the end of the audio passed to `onSpeechEnd`.
+	 * The end of speech is still decided after `redemptionFrames`; only the trailing audio beyond this padding is dropped.
+	 * Segments cut at `maxSpeechFrames` are not trimmed. When neither this nor `postSpeechPadMs` is set,
+	 * the whole redemption period is kept.
+	 */
+	postSpeechPadFrames?: number;
+
+	/** Same as `postSpeechPadFrames`, in milliseconds. Only one of the two can be set. */
+	postSpeechPadMs?: number;
 
 	/**
 	 * If true, when the user pauses the VAD, it may trigger `onSpeechEnd`.
 	 */
 	submitUserSpeechOnPause: boolean;
+
+	/** Maximum length of a speech segment in frames, counted from the first speech frame. When it is reached,
+	 * the segment is split at the frame with the lowest speech probability among the last `redemptionFrames` frames
+	 * (but at most half of the segment),
+	 * `onSpeechEnd` is run with the first part (flagged as forced) and a new segment starts with the rest.
+	 */
+	maxSpeechFrames: number;
+
+	/** Same as `maxSpeechFrames`, in milliseconds. When both are set, the shorter limit applies. */
+	maxSpeechMs: number;
+
+	/** If true, once speech is confirmed (`onSpeechRealStart`), its audio is also emitted in chunks while the user is still
+	 * talking: first the pre-speech padding and the frames buffered so far, then new audio every `speechChunkMs`.
+	 * The chunks of a segment add up to the audio passed to `onSpeechEnd`. Segments that end as a misfire or are
+	 * discarded on pause are followed by a cancel event. With a finite `maxSpeechFrames`, the frames where the segment
+	 * may be split are held back until it is known on which side of the split they fall.
+	 */
+	streamSpeech: boolean;
+
+	/** Minimum duration of new audio in each speech chunk after the first one; 0 emits every frame. */
+	speechChunkMs: number;
+
+	/** If true, the positive threshold follows the speech probabilities of the background audio: it is set
+	 * 3 standard deviations above their mean, within `minPositiveSpeechThreshold` and `maxPositiveSpeechThreshold`,
+	 * and the negative threshold stays as far below it as `negativeSpeechThreshold` is below `positiveSpeechThreshold`.
+	 * The background is measured during the first `calibrationMs` after each start, with the configured thresholds
+	 * in effect, then from the frames outside speech segments and those of misfires. Changes are reported by
+	 * `onThresholdsChanged`.
+	 */
+	adaptiveThresholds: boolean;
+
+	/** Lowest positive threshold set by `adaptiveThresholds`. */
+	minPositiveSpeechThreshold: number;
+
+	/** Highest positive threshold set by `adaptiveThresholds`. */
+	maxPositiveSpeechThreshold: number;
+
+	/** Duration of the calibration phase of `adaptiveThresholds` after each start. */
+	calibrationMs: number;
+
+	/** Smoothing applied to the speech probabilities before they are compared with the thresholds, so that
+	 * single-frame spikes do not start segments: `{ type: "ema", alpha }`, `{ type: "median", frames }`,
+	 * `{ type: "hysteresis", minOnFrames, minOffFrames }` or `{ type: "none" }`. Both the raw and the smoothed
+	 * probabilities are reported with each processed frame.
+	 */
+	smoothing: SmoothingOptions;
+
+	/** Frames whose RMS energy is under this level in dBFS do not go through the model once `energyGateMs` of them
+	 * follow each other: they are reported with a speech probability of 0 and flagged as skipped, saving inference on
+	 * silent channels. The model state is reset when a louder frame ends a skipped stretch. Digital silence is
+	 * measured as -100 dBFS. Disabled by default (`-Infinity`).
+	 */
+	energyGateDb: number;
+
+	/** Duration of the frames under `energyGateDb` that still go through the model before the following ones are skipped. */
+	energyGateMs: number;
 }
 
-export const defaultLegacyFrameProcessorOptions: FrameProcessorOptions = {
-	positiveSpeechThreshold: 0.5,
-	negativeSpeechThreshold: 0.5 - 0.15,
-	preSpeechPadFrames: 1,
-	redemptionFrames: 8,
-	frameSamples: 1536,
-	minSpeechFrames: 3,
-	submitUserSpeechOnPause: false,
-};
+/** Durations that can be set in frames or in milliseconds */
+export const DURATION_OPTIONS = [
+	["redemptionFrames", "redemptionMs"],
+	["preSpeechPadFrames", "preSpeechPadMs"],
+	["minSpeechFrames", "minSpeechMs"],
+	["postSpeechPadFrames", "postSpeechPadMs"],
+] as const;
+
+export type DurationOption = (typeof DURATION_OPTIONS)[number];
 
-export const defaultV5FrameProcessorOptions: FrameProcessorOptions = {
-	positiveSpeechThreshold: 0.5,
-	negativeSpeechThreshold: 0.5 - 0.15,
-	preSpeechPadFrames: 3,
-	redemptionFrames: 24,
-	frameSamples: 512,
-	minSpeechFrames: 9,
+type DefaultDurations = Partial<Pick<FrameProcessorOptions, DurationOption[1]>>;
+
+/**
+ * Durations in milliseconds of options built as defaults, kept under a
+ * symbol so that they survive spreading the defaults into other options
+ */
+const DEFAULT_DURATIONS = Symbol("defaultDurations");
+
+/** Record the durations in milliseconds of `options` as defaults, see `mergeOptions` */
+export function markDefaultDurations<T extends Partial<FrameProcessorOptions>>(
+	options: T,
+): T {
+	const durations: DefaultDurations = {};
+	for (const [, msKey] of DURATION_OPTIONS) {
+		durations[msKey] = options[msKey];
+	}
+	return Object.assign(options, { [DEFAULT_DURATIONS]: durations });
+}
+
+export const defaultLegacyFrameProcessorOptions: FrameProcessorOptions =
+	markDefaultDurations({
+		positiveSpeechThreshold: 0.5,
+		negativeSpeechThreshold: 0.5 - 0.15,
+		preSpeechPadMs: 96,
+		redemptionMs: 768,
+		frameSamples: 1536,
+		modelSampleRate: 16000,
+		minSpeechMs: 288,
+		submitUserSpeechOnPause: false,
+		maxSpeechFrames: Number.POSITIVE_INFINITY,
+		maxSpeechMs: Number.POSITIVE_INFINITY,
+		streamSpeech: false,
+		speechChunkMs: 0,
+		adaptiveThresholds: false,
+		minPositiveSpeechThreshold: 0.5,
+		maxPositiveSpeechThreshold: 0.9,
+		calibrationMs: 1000,
+		smoothing: NO_SMOOTHING,
+		energyGateDb: Number.NEGATIVE_INFINITY,
+		energyGateMs: 100,
+	});
+
+export const defaultV5FrameProcessorOptions: FrameProcessorOptions =
+	markDefaultDurations({
+		positiveSpeechThreshold: 0.5,
+		negativeSpeechThreshold: 0.5 - 0.15,
+		preSpeechPadMs: 96,
+		redemptionMs: 768,
+		frameSamples: 512,
+		modelSampleRate: 16000,
+		minSpeechMs: 288,
+		submitUserSpeechOnPause: false,
+		maxSpeechFrames: Number.POSITIVE_INFINITY,
+		maxSpeechMs: Number.POSITIVE_INFINITY,
+		streamSpeech: false,
+		speechChunkMs: 0,
+		adaptiveThresholds: false,
+		minPositiveSpeechThreshold: 0.5,
+		maxPositiveSpeechThreshold: 0.9,
+		calibrationMs: 1000,
+		smoothing: NO_SMOOTHING,
+		energyGateDb: Number.NEGATIVE_INFINITY,
+		energyGateMs: 100,
+	});
+
+/** Values for the options that configurations written for older versions leave out */
+const OPTION_FALLBACKS: Partial<FrameProcessorOptions> = {
+	modelSampleRate: 16000,
 	submitUserSpeechOnPause: false,
+	maxSpeechFrames: Number.POSITIVE_INFINITY,
+	maxSpeechMs: Number.POSITIVE_INFINITY,
+	streamSpeech: false,
+	speechChunkMs: 0,
+	adaptiveThresholds: false,
+	minPositiveSpeechThreshold: 0.5,
+	maxPositiveSpeechThreshold: 0.9,
+	calibrationMs: 1000,
+	smoothing: NO_SMOOTHING,
+	energyGateDb: Number.NEGATIVE_INFINITY,
+	energyGateMs: 100,
 };
 
-export function validateOptions(options: FrameProcessorOptions) {
-	if (!RECOMMENDED_FRAME_SAMPLES.includes(options.frameSamples)) {
-		log.warn("You are using an unusual frame size");
+/** A duration of `options` in frames, converting it if it was set in milliseconds */
+export function getDurationFrames(
+	options: FrameProcessorOptions,
+	[framesKey, msKey]: DurationOption,
+): number {
+	const frames = options[framesKey];
+	if (frames !== undefined) return frames;
+	const { frameSamples, modelSampleRate = 16000 } = options;
+	return minFramesForTargetMS(
+		options[msKey] ?? 0,
+		frameSamples,
+		modelSampleRate,
+	);
+}
+
+/**
+ * Apply `changes` to `options`. The unit of each duration is decided by the
+ * keys set in `changes`: a duration set there in one unit replaces the same
+ * duration of `options` in the other unit, and one set there in both units
+ * is a conflict. Defaults spread into `changes` do not count as set, so a
+ * frame count set over them replaces their duration in milliseconds.
+ */
+export function mergeOptions<T extends Partial<FrameProcessorOptions>>(
+	options: T,
+	changes: Partial<T>,
+): T {
+	const merged = { ...options };
+	const set = { ...changes };
+	const defaults: DefaultDurations =
+		(changes as { [DEFAULT_DURATIONS]?: DefaultDurations })[
+			DEFAULT_DURATIONS
+		] ?? {};
+	for (const [framesKey, msKey] of DURATION_OPTIONS) {
+		if (set[framesKey] !== undefined && set[msKey] === defaults[msKey]) {
+			delete set[msKey];
+		}
+		if (set[framesKey] !== undefined) delete merged[msKey];
+		if (set[msKey] !== undefined) delete merged[framesKey];
 	}
-	if (
-		options.positiveSpeechThreshold < 0 ||
-		options.positiveSpeechThreshold > 1
-	) {
-		log.error("positiveSpeechThreshold should be a number between 0 and 1");
+	return Object.assign(merged, set);
+}
+
+const isNumber = (value: unknown): value is number =>
+	typeof value === "number" && !Number.isNaN(value);
+
+const isFrameCount = (value: unknown): boolean =>
+	isNumber(value) && Number.isInteger(value) && value >= 0;
+
+/** `options` with the fallback value of the options it leaves out */
+export function withOptionFallbacks<T extends FrameProcessorOptions>(
+	options: T,
+): T {
+	const normalized = { ...options };
+	for (const key of Object.keys(OPTION_FALLBACKS) as (keyof T &
+		keyof FrameProcessorOptions)[]) {
+		if (normalized[key] === undefined) {
+			Object.assign(normalized, { [key]: OPTION_FALLBACKS[key] });
+		}
 	}
-	if (
-		options.negativeSpeechThreshold < 0 ||
-		options.negativeSpeechThreshold > options.positiveSpeechThreshold
-	) {
-		log.error(
-			"negativeSpeechThreshold should be between 0 and positiveSpeechThreshold",
+	return normalized;
+}
+
+/** Every invalid frame processor option in `options` */
+export function getOptionViolations(
+	options: FrameProcessorOptions,
+): VADConfigViolation[] {
+	const violations: VADConfigViolation[] = [];
+	const check = (
+		valid: boolean,
+		field: keyof FrameProcessorOptions,
+		rule: string,
+	) => {
+		if (!valid) {
+			violations.push({
+				field,
+				message: `${field} ${rule}, got ${String(options[field])}`,
+			});
+		}
+	};
+	const {
+		frameSamples,
+		modelSampleRate,
+		positiveSpeechThreshold,
+		negativeSpeechThreshold,
+		maxSpeechFrames,
+		maxSpeechMs,
+	} = options;
+
+	check(
+		isNumber(frameSamples) &&
+			Number.isInteger(frameSamples) &&
+			frameSamples > 0,
+		"frameSamples",
+		"should be a positive integer",
+	);
+	check(
+		isNumber(modelSampleRate) && modelSampleRate > 0,
+		"modelSampleRate",
+		"should be a positive number",
+	);
+	check(
+		isNumber(positiveSpeechThreshold) &&
+			positiveSpeechThreshold >= 0 &&
+			positiveSpeechThreshold <= 1,
+		"positiveSpeechThreshold",
+		"should be a number between 0 and 1",
+	);
+	check(
+		isNumber(negativeSpeechThreshold) &&
+			negativeSpeechThreshold >= 0 &&
+			negativeSpeechThreshold <= positiveSpeechThreshold,
+		"negativeSpeechThreshold",
+		"should be between 0 and positiveSpeechThreshold",
+	);
+	for (const [framesKey, msKey] of DURATION_OPTIONS) {
+		const frames = options[framesKey];
+		const ms = options[msKey];
+		if (frames !== undefined && ms !== undefined) {
+			violations.push({
+				field: msKey,
+				message: `${framesKey} and ${msKey} cannot both be set, got ${frames} and ${ms}`,
+			});
+		} else if (frames === undefined && ms !== undefined) {
+			check(isNumber(ms) && ms >= 0, msKey, "should not be negative");
+		} else if (frames !== undefined || framesKey !== "postSpeechPadFrames") {
+			// only the post-speech padding can be left unset
+			check(
+				isFrameCount(frames),
+				framesKey,
+				"should be a non-negative integer",
+			);
+		}
+	}
+	check(
+		isNumber(maxSpeechFrames) && maxSpeechFrames >= 1,
+		"maxSpeechFrames",
+		"should be at least 1",
+	);
+	check(
+		isNumber(maxSpeechMs) && maxSpeechMs > 0,
+		"maxSpeechMs",
+		"should be positive",
+	);
+	check(
+		isNumber(options.speechChunkMs) && options.speechChunkMs >= 0,
+		"speechChunkMs",
+		"should not be negative",
+	);
+	const { minPositiveSpeechThreshold, maxPositiveSpeechThreshold } = options;
+	check(
+		isNumber(minPositiveSpeechThreshold) &&
+			minPositiveSpeechThreshold >= 0 &&
+			minPositiveSpeechThreshold <= 1,
+		"minPositiveSpeechThreshold",
+		"should be a number between 0 and 1",
+	);
+	check(
+		isNumber(maxPositiveSpeechThreshold) &&
+			maxPositiveSpeechThreshold >= minPositiveSpeechThreshold &&
+			maxPositiveSpeechThreshold <= 1,
+		"maxPositiveSpeechThreshold",
+		"should be between minPositiveSpeechThreshold and 1",
+	);
+	check(
+		isNumber(options.energyGateDb) && options.energyGateDb <= 0,
+		"energyGateDb",
+		"should be a level in dBFS, at most 0",
+	);
+	check(
+		isNumber(options.energyGateMs) && options.energyGateMs >= 0,
+		"energyGateMs",
+		"should not be negative",
+	);
+	check(
+		isNumber(options.calibrationMs) && options.calibrationMs >= 0,
+		"calibrationMs",
+		"should not be negative",
+	);
+	const smoothingError = getSmoothingError(options.smoothing);
+	if (smoothingError !== null) {
+		violations.push({ field: "smoothing", message: smoothingError });
+	}
+	if (violations.length === 0) {
+		// a segment split at the limit before reaching minSpeechFrames is a misfire
+		const frameMs = (frameSamples * 1000) / modelSampleRate;
+		const maxFrames = Math.max(
+			1,
+			Math.min(maxSpeechFrames, Math.floor(maxSpeechMs / frameMs)),
 		);
+		const minSpeechFrames = getDurationFrames(options, DURATION_OPTIONS[2]);
+		if (minSpeechFrames > maxFrames) {
+			const field =
+				options.minSpeechFrames !== undefined
+					? "minSpeechFrames"
+					: "minSpeechMs";
+			violations.push({
+				field,
+				message: `${field} should not exceed the ${maxFrames} frames allowed by maxSpeechFrames/maxSpeechMs, got ${minSpeechFrames} frames`,
+			});
+		}
 	}
-	if (options.preSpeechPadFrames < 0) {
-		log.error("preSpeechPadFrames should be positive");
+	return violations;
+}
+
+/**
+ * Check frame processor options and return them frozen, with the options
+ * that older configurations leave out filled in. Each violation, including
+ * the `violations` found by the caller in its own options, is logged; with
+ * `strict`, they are thrown together in a VADConfigError instead.
+ */
+export function validateOptions<T extends FrameProcessorOptions>(
+	options: T,
+	{
+		strict = false,
+		violations: callerViolations = [],
+	}: { strict?: boolean; violations?: VADConfigViolation[] } = {},
+): Readonly<T> {
+	const normalized = withOptionFallbacks(options);
+	const violations = [...getOptionViolations(normalized), ...callerViolations];
+	if (strict && violations.length > 0) {
+		throw new VADConfigError(violations);
 	}
-	if (options.redemptionFrames < 0) {
-		log.error("redemptionFrames should be positive");
+	for (const violation of violations) {
+		log.error(violation.message);
 	}
+
+	const { frameSamples, modelSampleRate } = normalized;
+	const recommended = RECOMMENDED_FRAME_SAMPLES[modelSampleRate];
+	if (!recommended) {
+		log.warn(`You are using an unusual model sample rate: ${modelSampleRate}`);
+	} else if (!recommended.includes(frameSamples)) {
+		log.warn(
+			`You are using an unusual frame size; at ${modelSampleRate}Hz use one of ${recommended.join(", ")}`,
+		);
+	}
+	return Object.freeze(normalized);
 }
 
 export interface FrameProcessorInterface {
+	/** Number of frames processed so far, the index of the next frame */
+	frameCount: number;
 	resume: () => void;
 	process: (
 		arr: Float32Array,
@@ -107,6 +491,71 @@ export interface FrameProcessorInterface {
 	};
 }
 
+/**
+ * Frame indices delimiting a speech segment, counted from the first frame
+ * processed by the FrameProcessor. End indices are exclusive.
+ */
+export interface SegmentFrames {
+	/** First frame of the segment audio, including pre-speech padding */
+	paddedStart: number;
+	/** First frame detected as speech */
+	start: number;
+	/** Frame following the last frame detected as speech */
+	end: number;
+	/** Frame following the last frame of the segment audio, including redemption frames */
+	paddedEnd: number;
+}
+
+interface BufferedFrame {
+	frame: Float32Array;
+	isSpeech: boolean;
+	/** Speech probability after smoothing */
+	probability: number;
+	index: number;
+}
+
+/**
+ * Everything a FrameProcessor remembers between frames, as plain data; see
+ * `getState`. Frames are number arrays so that the state survives JSON.
+ */
+export interface FrameProcessorState {
+	active: boolean;
+	speaking: boolean;
+	audioBuffer: {
+		frame: number[];
+		isSpeech: boolean;
+		probability: number;
+		index: number;
+	}[];
+	redemptionCounter: number;
+	speechFrameCount: number;
+	speechRealStartFired: boolean;
+	frameCount: number;
+	segmentStart: number;
+	segmentId: number;
+	streamedUntil: number;
+	thresholds: SpeechThresholds;
+	calibrationEnd: number | null;
+	noiseFloor: Pick<NoiseFloor, "count" | "mean" | "variance" | "energyDb">;
+	quietFrames: number;
+	skippedFrames: number;
+	smoother: SmootherState;
+}
+
+const getSegmentFrames = (audioBuffer: BufferedFrame[]): SegmentFrames => {
+	const paddedStart = audioBuffer[0]?.index ?? 0;
+	const paddedEnd = (audioBuffer.at(-1)?.index ?? -1) + 1;
+	let start = paddedEnd;
+	let end = paddedEnd;
+	for (const item of audioBuffer) {
+		if (item.isSpeech) {
+			if (start === paddedEnd) start = item.index;
+			end = item.index + 1;
+		}
+	}
+	return { paddedStart, start, end, paddedEnd };
+};
+
 const concatArrays = (arrays: Float32Array[]): Float32Array => {
 	const sizes = arrays.reduce(
 		(out, next) => {
@@ -125,11 +574,31 @@ const concatArrays = (arrays: Float32Array[]): Float32Array => {
 
 export class FrameProcessor implements FrameProcessorInterface {
 	speaking = false;
-	audioBuffer: { frame: Float32Array; isSpeech: boolean }[];
+	audioBuffer: BufferedFrame[];
 	redemptionCounter = 0;
 	speechFrameCount = 0;
 	active = false;
 	speechRealStartFired = false;
+	/** Number of frames processed so far; used as the index of the next frame */
+	frameCount = 0;
+	/** Index of the first speech frame of the current segment */
+	segmentStart = 0;
+	/** Identifies the current segment in chunk, cancel and end events */
+	segmentId = -1;
+	/** Index of the first frame of the current segment not yet emitted in a chunk */
+	streamedUntil = 0;
+	/** Thresholds applied to the next frame */
+	thresholds: SpeechThresholds;
+	/** Index of the first frame after calibration; null until adaptive thresholds start calibrating */
+	calibrationEnd: number | null = null;
+	noiseFloor = new NoiseFloor();
+	/** Consecutive frames under `energyGateDb` */
+	quietFrames = 0;
+	/** Number of frames that did not go through the model because of `energyGateDb` */
+	skippedFrames = 0;
+	private smoother: Smoother = createSmoother(NO_SMOOTHING);
+	/** Options `smoother` was created from */
+	private smoothing: SmoothingOptions = NO_SMOOTHING;
 
 	constructor(
 		public modelProcessFunc: (
@@ -139,6 +608,7 @@ export class FrameProcessor implements FrameProcessorInterface {
 		public options: FrameProcessorOptions,
 	) {
 		this.audioBuffer = [];
+		this.thresholds = this.getFixedThresholds();
 		this.reset();
 	}
 
@@ -147,6 +617,7 @@ export class FrameProcessor implements FrameProcessorInterface {
 		this.speechRealStartFired = false;
 		this.audioBuffer = [];
 		this.modelResetFunc();
+		this.smoother.reset();
 		this.redemptionCounter = 0;
 		this.speechFrameCount = 0;
 	};
@@ -156,12 +627,21 @@ export class FrameProcessor implements FrameProcessorInterface {
 		if (this.options.submitUserSpeechOnPause) {
 			this.endSegment(handleEvent);
 		} else {
+			if (this.speaking && this.options.streamSpeech) {
+				handleEvent({
+					msg: Message.SpeechCancel,
+					segment: getSegmentFrames(this.audioBuffer),
+					segmentId: this.segmentId,
+				});
+			}
 			this.reset();
 		}
 	};
 
 	resume = () => {
 		this.active = true;
+		// the background may have changed while paused
+		this.calibrationEnd = null;
 	};
 
 	endSegment = (handleEvent: (event: FrameProcessorEvent) => any) => {
@@ -174,16 +654,136 @@ export class FrameProcessor implements FrameProcessorInterface {
 			const speechFrameCount = audioBuffer.reduce((acc, item) => {
 				return item.isSpeech ? acc + 1 : acc;
 			}, 0);
-			if (speechFrameCount >= this.options.minSpeechFrames) {
-				const audio = concatArrays(audioBuffer.map((item) => item.frame));
-				handleEvent({ msg: Message.SpeechEnd, audio });
-			} else {
-				handleEvent({ msg: Message.VADMisfire });
-			}
+			this.emitSegmentEnd(
+				handleEvent,
+				audioBuffer,
+				speechFrameCount >= this.minSpeechFrames,
+				false,
+			);
 		}
 		return {};
 	};
 
+	/**
+	 * Snapshot of the state carried from one frame to the next, from which
+	 * `restoreState` resumes with the same events. The model state is not
+	 * included.
+	 */
+	getState = (): FrameProcessorState => {
+		const { count, mean, variance, energyDb } = this.noiseFloor;
+		return {
+			active: this.active,
+			speaking: this.speaking,
+			audioBuffer: this.audioBuffer.map((item) => ({
+				frame: Array.from(item.frame),
+				isSpeech: item.isSpeech,
+				probability: item.probability,
+				index: item.index,
+			})),
+			redemptionCounter: this.redemptionCounter,
+			speechFrameCount: this.speechFrameCount,
+			speechRealStartFired: this.speechRealStartFired,
+			frameCount: this.frameCount,
+			segmentStart: this.segmentStart,
+			segmentId: this.segmentId,
+			streamedUntil: this.streamedUntil,
+			thresholds: { ...this.thresholds },
+			calibrationEnd: this.calibrationEnd,
+			noiseFloor: { count, mean, variance, energyDb },
+			quietFrames: this.quietFrames,
+			skippedFrames: this.skippedFrames,
+			smoother: this.getSmoother().getState(),
+		};
+	};
+
+	/** Resume from a state returned by `getState` with the same `smoothing` */
+	restoreState = (state: FrameProcessorState) => {
+		this.active = state.active;
+		this.speaking = state.speaking;
+		this.audioBuffer = state.audioBuffer.map((item) => ({
+			...item,
+			frame: new Float32Array(item.frame),
+		}));
+		this.redemptionCounter = state.redemptionCounter;
+		this.speechFrameCount = state.speechFrameCount;
+		this.speechRealStartFired = state.speechRealStartFired;
+		this.frameCount = state.frameCount;
+		this.segmentStart = state.segmentStart;
+		this.segmentId = state.segmentId;
+		this.streamedUntil = state.streamedUntil;
+		this.thresholds = { ...state.thresholds };
+		this.calibrationEnd = state.calibrationEnd;
+		Object.assign(this.noiseFloor, state.noiseFloor);
+		this.quietFrames = state.quietFrames;
+		this.skippedFrames = state.skippedFrames;
+		this.getSmoother().restoreState(state.smoother);
+	};
+
+	/** `redemptionFrames`, or `redemptionMs` in frames */
+	get redemptionFrames(): number {
+		return getDurationFrames(this.options, DURATION_OPTIONS[0]);
+	}
+
+	/** `preSpeechPadFrames`, or `preSpeechPadMs` in frames */
+	get preSpeechPadFrames(): number {
+		return getDurationFrames(this.options, DURATION_OPTIONS[1]);
+	}
+
+	/** `minSpeechFrames`, or `minSpeechMs` in frames */
+	get minSpeechFrames(): number {
+		return getDurationFrames(this.options, DURATION_OPTIONS[2]);
+	}
+
+	/** `postSpeechPadFrames`, or `postSpeechPadMs` in frames; unlimited when neither is set */
+	get postSpeechPadFrames(): number {
+		const { postSpeechPadFrames, postSpeechPadMs } = this.options;
+		if (postSpeechPadFrames === undefined && postSpeechPadMs === undefined) {
+			return Number.POSITIVE_INFINITY;
+		}
+		return getDurationFrames(this.options, DURATION_OPTIONS[3]);
+	}
+
+	/** Effective segment length limit from `maxSpeechFrames` and `maxSpeechMs` */
+	get maxSegmentFrames(): number {
+		const {
+			maxSpeechFrames = Number.POSITIVE_INFINITY,
+			maxSpeechMs = Number.POSITIVE_INFINITY,
+		} = this.options;
+		const fromMs = Math.floor(maxSpeechMs / this.frameMs);
+		return Math.max(1, Math.min(maxSpeechFrames, fromMs));
+	}
+
+	/** Number of frames before the end of a segment that may be moved to the next one when it is split */
+	get splitLookback(): number {
+		const maxSegmentFrames = this.maxSegmentFrames;
+		if (maxSegmentFrames === Number.POSITIVE_INFINITY) return 0;
+		return Math.min(this.redemptionFrames, Math.floor(maxSegmentFrames / 2));
+	}
+
+	/** Minimum number of new frames in a speech chunk, from `speechChunkMs` */
+	get speechChunkFrames(): number {
+		const { speechChunkMs = 0 } = this.options;
+		return Math.max(1, Math.ceil(speechChunkMs / this.frameMs));
+	}
+
+	/** Number of frames in the calibration phase of `adaptiveThresholds` */
+	get calibrationFrames(): number {
+		const { calibrationMs = 1000 } = this.options;
+		return Math.ceil(calibrationMs / this.frameMs);
+	}
+
+	/** Number of frames under `energyGateDb` that go through the model before the following ones are skipped */
+	get energyGateFrames(): number {
+		const { energyGateMs = 0 } = this.options;
+		return Math.ceil(energyGateMs / this.frameMs);
+	}
+
+	/** Duration of a frame in milliseconds */
+	get frameMs(): number {
+		const { frameSamples, modelSampleRate = 16000 } = this.options;
+		return (frameSamples * 1000) / modelSampleRate;
+	}
+
 	process = async (
 		frame: Float32Array,
 		handleEvent: (event: FrameProcessorEvent) => any,
@@ -192,14 +792,41 @@ export class FrameProcessor implements FrameProcessorInterface {
 			return;
 		}
 
-		const probs = await this.modelProcessFunc(frame);
-		const isSpeech = probs.isSpeech >= this.options.positiveSpeechThreshold;
+		const index = this.frameCount++;
+		const skipped = this.gateFrame(frame);
+		const probs = skipped
+			? { isSpeech: 0, notSpeech: 1 }
+			: await this.modelProcessFunc(frame);
+		this.updateThresholds(index, handleEvent);
+		const { positiveSpeechThreshold, negativeSpeechThreshold } =
+			this.thresholds;
+		const probability = this.getSmoother().smooth(
+			probs.isSpeech,
+			this.thresholds,
+		);
+		const isSpeech = probability >= positiveSpeechThreshold;
 
-		handleEvent({ probs, msg: Message.FrameProcessed, frame });
+		handleEvent({
+			probs,
+			smoothedProbs: { isSpeech: probability, notSpeech: 1 - probability },
+			msg: Message.FrameProcessed,
+			frame,
+			index,
+			skipped,
+		});
+
+		if (
+			this.calibrationEnd !== null &&
+			(index < this.calibrationEnd || (!this.speaking && !isSpeech))
+		) {
+			this.noiseFloor.add(probability, frameEnergyDb(frame), this.frameMs);
+		}
 
 		this.audioBuffer.push({
 			frame,
 			isSpeech,
+			probability,
+			index,
 		});
 
 		if (isSpeech) {
@@ -209,22 +836,31 @@ export class FrameProcessor implements FrameProcessorInterface {
 
 		if (isSpeech && !this.speaking) {
 			this.speaking = true;
-			handleEvent({ msg: Message.SpeechStart });
+			this.segmentStart = index;
+			this.startSegment();
+			handleEvent({
+				msg: Message.SpeechStart,
+				segment: getSegmentFrames(this.audioBuffer),
+			});
 		}
 
 		if (
 			this.speaking &&
-			this.speechFrameCount === this.options.minSpeechFrames &&
+			this.speechFrameCount === this.minSpeechFrames &&
 			!this.speechRealStartFired
 		) {
 			this.speechRealStartFired = true;
-			handleEvent({ msg: Message.SpeechRealStart });
+			handleEvent({
+				msg: Message.SpeechRealStart,
+				segment: getSegmentFrames(this.audioBuffer),
+			});
+			this.streamSpeech(handleEvent, true);
 		}
 
 		if (
-			probs.isSpeech < this.options.negativeSpeechThreshold &&
+			probability < negativeSpeechThreshold &&
 			this.speaking &&
-			++this.redemptionCounter >= this.options.redemptionFrames
+			++this.redemptionCounter >= this.redemptionFrames
 		) {
 			this.redemptionCounter = 0;
 			this.speechFrameCount = 0;
@@ -237,39 +873,346 @@ export class FrameProcessor implements FrameProcessorInterface {
 				return item.isSpeech ? acc + 1 : acc;
 			}, 0);
 
-			if (speechFrameCount >= this.options.minSpeechFrames) {
-				const audio = concatArrays(audioBuffer.map((item) => item.frame));
-				handleEvent({ msg: Message.SpeechEnd, audio });
-			} else {
-				handleEvent({ msg: Message.VADMisfire });
-			}
+			this.emitSegmentEnd(
+				handleEvent,
+				audioBuffer,
+				speechFrameCount >= this.minSpeechFrames,
+				false,
+			);
+		}
+
+		if (
+			this.speaking &&
+			index + 1 - this.segmentStart >= this.maxSegmentFrames
+		) {
+			this.splitSegment(handleEvent);
+		}
+
+		if (this.speaking && this.speechRealStartFired) {
+			this.streamSpeech(handleEvent, false);
 		}
 
 		if (!this.speaking) {
-			while (this.audioBuffer.length > this.options.preSpeechPadFrames) {
+			while (this.audioBuffer.length > this.preSpeechPadFrames) {
 				this.audioBuffer.shift();
 			}
 			this.speechFrameCount = 0;
 		}
 	};
+
+	/**
+	 * Whether `frame` can skip the model because it follows `energyGateFrames`
+	 * frames under `energyGateDb`. When a louder frame ends a skipped stretch,
+	 * the model state is reset, since the state left before the stretch no
+	 * longer matches the audio.
+	 */
+	private gateFrame = (frame: Float32Array): boolean => {
+		const { energyGateDb = Number.NEGATIVE_INFINITY } = this.options;
+		const quiet =
+			energyGateDb > Number.NEGATIVE_INFINITY &&
+			frameEnergyDb(frame) < energyGateDb;
+		const gated = this.quietFrames > this.energyGateFrames;
+		if (!quiet) {
+			if (gated) this.modelResetFunc();
+			this.quietFrames = 0;
+			return false;
+		}
+		this.quietFrames++;
+		if (this.quietFrames <= this.energyGateFrames) return false;
+		this.skippedFrames++;
+		return true;
+	};
+
+	/** Smoother for the current `smoothing` option, recreated when it is changed */
+	private getSmoother = (): Smoother => {
+		const { smoothing = NO_SMOOTHING } = this.options;
+		if (smoothing !== this.smoothing) {
+			this.smoothing = smoothing;
+			this.smoother = createSmoother(smoothing);
+		}
+		return this.smoother;
+	};
+
+	private getFixedThresholds = (): SpeechThresholds => ({
+		positiveSpeechThreshold: this.options.positiveSpeechThreshold,
+		negativeSpeechThreshold: this.options.negativeSpeechThreshold,
+		calibrating: false,
+	});
+
+	/**
+	 * Set the thresholds applied to frame `index`, starting calibration on the
+	 * first frame processed with `adaptiveThresholds`, and report them when
+	 * they change
+	 */
+	private updateThresholds = (
+		index: number,
+		handleEvent: (event: FrameProcessorEvent) => any,
+	) => {
+		const {
+			adaptiveThresholds,
+			positiveSpeechThreshold,
+			negativeSpeechThreshold,
+			minPositiveSpeechThreshold = 0.5,
+			maxPositiveSpeechThreshold = 0.9,
+		} = this.options;
+		let thresholds = this.getFixedThresholds();
+		if (!adaptiveThresholds) {
+			this.calibrationEnd = null;
+		} else {
+			if (this.calibrationEnd === null) {
+				this.noiseFloor.reset();
+				this.calibrationEnd = index + this.calibrationFrames;
+			}
+			const noiseFloorDb = this.noiseFloor.energyDb;
+			if (index < this.calibrationEnd) {
+				thresholds = { ...thresholds, noiseFloorDb, calibrating: true };
+			} else {
+				const positive = this.noiseFloor.positiveThreshold(
+					minPositiveSpeechThreshold,
+					maxPositiveSpeechThreshold,
+				);
+				const gap = positiveSpeechThreshold - negativeSpeechThreshold;
+				thresholds = {
+					positiveSpeechThreshold: positive,
+					negativeSpeechThreshold:
+						Math.round(Math.max(0, positive - gap) * 100) / 100,
+					noiseFloorDb,
+					calibrating: false,
+				};
+			}
+		}
+
+		const previous = this.thresholds;
+		this.thresholds = thresholds;
+		if (
+			thresholds.positiveSpeechThreshold !== previous.positiveSpeechThreshold ||
+			thresholds.negativeSpeechThreshold !== previous.negativeSpeechThreshold ||
+			thresholds.calibrating !== previous.calibrating
+		) {
+			handleEvent({ msg: Message.ThresholdsChanged, thresholds, index });
+		}
+	};
+
+	/**
+	 * End the current segment because it reached `maxSegmentFrames`. The split
+	 * happens after the least speech-like of the last `redemptionFrames`
+	 * frames (at most half of the segment); the frames following it start the
+	 * next segment.
+	 */
+	private splitSegment = (handleEvent: (event: FrameProcessorEvent) => any) => {
+		const audioBuffer = this.audioBuffer;
+		const firstSpeech = audioBuffer.findIndex(
+			(item) => item.index === this.segmentStart,
+		);
+		const lookback = this.splitLookback;
+		// keep the first speech frame in the first part and the current frame
+		// in the second one whenever possible
+		const lowest = Math.max(firstSpeech, audioBuffer.length - 1 - lookback);
+		const highest = audioBuffer.length - 2;
+		let split = audioBuffer.length - 1;
+		if (lowest <= highest) {
+			split = highest;
+			for (let i = highest - 1; i >= lowest; i--) {
+				if (
+					(audioBuffer[i] as BufferedFrame).probability <
+					(audioBuffer[split] as BufferedFrame).probability
+				) {
+					split = i;
+				}
+			}
+		}
+
+		const first = audioBuffer.slice(0, split + 1);
+		const rest = audioBuffer.slice(split + 1);
+		// once confirmed, speech cut short by the limit is still speech
+		const confirmed = this.speechRealStartFired;
+		this.emitSegmentEnd(handleEvent, first, confirmed, true);
+
+		this.audioBuffer = rest;
+		this.speechRealStartFired = false;
+		const nextSpeech = rest.find((item) => item.isSpeech);
+		if (!nextSpeech) {
+			this.speaking = false;
+			this.speechFrameCount = 0;
+			return;
+		}
+		this.segmentStart = nextSpeech.index;
+		this.speechFrameCount = rest.filter((item) => item.isSpeech).length;
+		this.startSegment();
+		handleEvent({
+			msg: Message.SpeechStart,
+			segment: getSegmentFrames(rest),
+		});
+		// the continuation of confirmed speech needs no new confirmation
+		if (confirmed || this.speechFrameCount >= this.minSpeechFrames) {
+			this.speechRealStartFired = true;
+			handleEvent({
+				msg: Message.SpeechRealStart,
+				segment: getSegmentFrames(rest),
+			});
+			this.streamSpeech(handleEvent, true);
+		}
+	};
+
+	/** Give the segment starting with the buffered audio a new id */
+	private startSegment = () => {
+		this.segmentId++;
+		this.streamedUntil = this.audioBuffer[0]?.index ?? this.frameCount;
+	};
+
+	/**
+	 * Emit the buffered frames of the current segment that were not streamed
+	 * yet, except those that a split may still move to the next segment. Unless
+	 * `force` is set, nothing is emitted before `speechChunkFrames` are available.
+	 */
+	private streamSpeech = (
+		handleEvent: (event: FrameProcessorEvent) => any,
+		force: boolean,
+	) => {
+		if (!this.options.streamSpeech) return;
+		const pending = this.audioBuffer.filter(
+			(item) => item.index >= this.streamedUntil,
+		);
+		const trimmedEnd = this.getTrimmedEnd(this.audioBuffer);
+		const available = pending
+			.slice(0, Math.max(0, pending.length - this.splitLookback))
+			.filter((item) => item.index < trimmedEnd);
+		if (available.length === 0) return;
+		if (!force && available.length < this.speechChunkFrames) return;
+		this.emitChunk(handleEvent, available);
+	};
+
+	private emitChunk = (
+		handleEvent: (event: FrameProcessorEvent) => any,
+		frames: BufferedFrame[],
+	) => {
+		const last = frames.at(-1);
+		if (!last || !this.options.streamSpeech) return;
+		this.streamedUntil = last.index + 1;
+		handleEvent({
+			msg: Message.SpeechChunk,
+			audio: concatArrays(frames.map((item) => item.frame)),
+			segment: getSegmentFrames(frames),
+			segmentId: this.segmentId,
+		});
+	};
+
+	/**
+	 * Index following the last frame of `frames` that belongs in the segment
+	 * audio: at most `postSpeechPadFrames` after the last speech frame. Frames
+	 * beyond it are not streamed, since the segment may end before speech
+	 * resumes.
+	 */
+	private getTrimmedEnd = (frames: BufferedFrame[]): number => {
+		const { end, paddedEnd } = getSegmentFrames(frames);
+		return Math.min(paddedEnd, end + this.postSpeechPadFrames);
+	};
+
+	/**
+	 * End the current segment with the given frames: emit its remaining audio
+	 * as a last chunk followed by SpeechEnd, or, if it was not speech after all,
+	 * a misfire followed by SpeechCancel (chunks and cancel only when
+	 * `streamSpeech` is enabled). Unless the segment was cut at the length
+	 * limit, its trailing silence is trimmed to `postSpeechPadFrames`.
+	 */
+	private emitSegmentEnd = (
+		handleEvent: (event: FrameProcessorEvent) => any,
+		segmentFrames: BufferedFrame[],
+		isSpeech: boolean,
+		forced: boolean,
+	) => {
+		let frames = segmentFrames;
+		if (isSpeech && !forced) {
+			const trimmedEnd = this.getTrimmedEnd(frames);
+			frames = frames.filter((item) => item.index < trimmedEnd);
+		}
+		const segment = getSegmentFrames(frames);
+		const segmentId = this.segmentId;
+		if (isSpeech) {
+			this.emitChunk(
+				handleEvent,
+				frames.filter((item) => item.index >= this.streamedUntil),
+			);
+			const audio = concatArrays(frames.map((item) => item.frame));
+			handleEvent({
+				msg: Message.SpeechEnd,
+				audio,
+				segment,
+				forced,
+				segmentId,
+			});
+		} else {
+			if (!forced && this.calibrationEnd !== null) {
+				// frames that set off a misfire are background too
+				const from = Math.max(this.segmentStart, this.calibrationEnd);
+				for (const item of frames) {
+					if (item.index >= from) {
+						this.noiseFloor.add(
+							item.probability,
+							frameEnergyDb(item.frame),
+							this.frameMs,
+						);
+					}
+				}
+			}
+			handleEvent({ msg: Message.VADMisfire, segment });
+			if (this.options.streamSpeech) {
+				handleEvent({ msg: Message.SpeechCancel, segment, segmentId });
+			}
+		}
+	};
 }
 
 export type FrameProcessorEvent =
 	| {
 			msg: Message.VADMisfire;
+			segment: SegmentFrames;
 	  }
 	| {
 			msg: Message.SpeechStart;
+			segment: SegmentFrames;
 	  }
 	| {
 			msg: Message.SpeechRealStart;
+			segment: SegmentFrames;
 	  }
 	| {
 			msg: Message.SpeechEnd;
 			audio: Float32Array;
+			segment: SegmentFrames;
+			/** Whether the segment was cut at `maxSpeechFrames` rather than ended by silence */
+			forced: boolean;
+			segmentId: number;
+	  }
+	| {
+			msg: Message.SpeechChunk;
+			/** Audio of the segment that follows the previous chunk */
+			audio: Float32Array;
+			/** Frames of the chunk; `start`/`end` delimit the speech frames it contains */
+			segment: SegmentFrames;
+			segmentId: number;
+	  }
+	| {
+			/** The segment turned out not to be speech (after VADMisfire) or was discarded on pause; its chunks should be dropped */
+			msg: Message.SpeechCancel;
+			segment: SegmentFrames;
+			segmentId: number;
+	  }
+	| {
+			/** The thresholds applied from frame `index` on differ from those of the previous frame */
+			msg: Message.ThresholdsChanged;
+			thresholds: SpeechThresholds;
+			index: number;
 	  }
 	| {
 			msg: Message.FrameProcessed;
+			/** Probabilities returned by the model */
 			probs: SpeechProbabilities;
+			/** Probabilities after `smoothing`, compared with the thresholds */
+			smoothedProbs: SpeechProbabilities;
+			/** The frame did not go through the model because of `energyGateDb` */
+			skipped: boolean;
 			frame: Float32Array;
+			/** Index of the frame, see `SegmentFrames` */
+			index: number;
 	  };
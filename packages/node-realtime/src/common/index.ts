@@ -3,10 +3,15 @@ export const utils = {
 	minFramesForTargetMS: _utils.minFramesForTargetMS,
 	arrayBufferToBase64: _utils.arrayBufferToBase64,
 	encodeWAV: _utils.encodeWAV,
+	deinterleave: _utils.deinterleave,
 };
 
+export * from "./errors";
 export * from "./frame-processor";
 export * from "./logging";
 export * from "./messages";
 export * from "./models";
+export * from "./noise-floor";
 export * from "./resampler";
+export * from "./ring-buffer";
+export * from "./smoothing";
@@ -6,4 +6,7 @@ export enum Message {
 	SpeechStop = "SPEECH_STOP",
 	SpeechRealStart = "SPEECH_REAL_START",
 	FrameProcessed = "FRAME_PROCESSED",
+	SpeechChunk = "SPEECH_CHUNK",
+	SpeechCancel = "SPEECH_CANCEL",
+	ThresholdsChanged = "THRESHOLDS_CHANGED",
 }
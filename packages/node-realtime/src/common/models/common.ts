@@ -1,4 +1,5 @@
 import type * as ort from "onnxruntime-node";
+import { ModelLoadError } from "../errors";
 
 export type ModelFetcher = () => Promise<ArrayBuffer>;
 
@@ -10,12 +11,48 @@ export interface SpeechProbabilities {
 export type OrtConfigurer = (ortInstance: typeof ort) => any;
 export type OrtModule = typeof ort;
 
+/** Create a model with fresh state on top of an already loaded session */
+export type SessionModelFactory = (
+	ortInstance: typeof ort,
+	session: ort.InferenceSession,
+) => Model;
+
 export type ModelFactory = (
 	ortInstance: typeof ort,
 	modelFetcher: ModelFetcher,
 ) => Promise<Model>;
 
+/**
+ * Fetch a model and create its InferenceSession, reporting data that
+ * onnxruntime cannot load as a ModelLoadError
+ */
+export async function createSession(
+	ortInstance: typeof ort,
+	modelFetcher: ModelFetcher,
+): Promise<ort.InferenceSession> {
+	const modelArrayBuffer = await modelFetcher();
+	try {
+		return await ortInstance.InferenceSession.create(modelArrayBuffer);
+	} catch (e) {
+		throw new ModelLoadError(
+			`VAD model is not a valid ONNX model: ${(e as Error).message}`,
+		);
+	}
+}
+
+/**
+ * Recurrent state of a model for one stream, as plain data: the state
+ * tensors in the order of the descriptor, and the end of the previous frame
+ * for models that need it
+ */
+export interface ModelState {
+	tensors: number[][];
+	context: number[];
+}
+
 export interface Model {
 	reset_state: () => void;
 	process: (arr: Float32Array) => Promise<SpeechProbabilities>;
+	getState?: () => ModelState;
+	restoreState?: (state: ModelState) => void;
 }
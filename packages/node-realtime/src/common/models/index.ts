@@ -1,8 +1,9 @@
 import type { OrtConfigurer } from "./common";
 
 export * from "./common";
-export { SileroLegacy } from "./legacy";
-export { SileroV5 } from "./v5";
+export { SileroLegacy, sileroLegacyDescriptor } from "./legacy";
+export * from "./onnx-model";
+export { SileroV5, sileroV5Descriptor } from "./v5";
 
 export type OrtOptions = {
 	ortConfig?: OrtConfigurer;
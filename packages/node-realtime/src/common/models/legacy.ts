@@ -1,56 +1,32 @@
 import type * as ort from "onnxruntime-node";
-import { log } from "../logging";
-import type { ModelFactory, ModelFetcher, SpeechProbabilities } from "./common";
+import { defaultLegacyFrameProcessorOptions } from "../frame-processor";
+import type { ModelFactory, ModelFetcher, SessionModelFactory } from "./common";
+import { OnnxVADModel, type VADModelDescriptor } from "./onnx-model";
 
-export class SileroLegacy {
-	constructor(
-		private ortInstance: typeof ort,
-		private _session: ort.InferenceSession,
-		private _h: ort.Tensor,
-		private _c: ort.Tensor,
-		private _sr: ort.Tensor,
-	) {}
+/** Silero VAD before v5, with separate h and c LSTM states */
+export const sileroLegacyDescriptor: VADModelDescriptor = {
+	input: "input",
+	output: "output",
+	sampleRateInput: "sr",
+	state: [
+		{ input: "h", output: "hn", shape: [2, 1, 64], batchAxis: 1 },
+		{ input: "c", output: "cn", shape: [2, 1, 64], batchAxis: 1 },
+	],
+	sampleRates: { 16000: [512, 1024, 1536], 8000: [256, 512, 768] },
+	frameProcessorOptions: defaultLegacyFrameProcessorOptions,
+};
 
-	static new: ModelFactory = async (
-		ortInstance: typeof ort,
-		modelFetcher: ModelFetcher,
-	) => {
-		log.debug("initializing vad");
-		const modelArrayBuffer = await modelFetcher();
-		const _session =
-			await ortInstance.InferenceSession.create(modelArrayBuffer);
-		// @ts-ignore
-		const _sr = new ortInstance.Tensor("int64", [16000n]);
-		const zeroes = Array(2 * 64).fill(0);
-		const _h = new ortInstance.Tensor("float32", zeroes, [2, 1, 64]);
-		const _c = new ortInstance.Tensor("float32", zeroes, [2, 1, 64]);
-		log.debug("vad is initialized");
-		const model = new SileroLegacy(ortInstance, _session, _h, _c, _sr);
-		return model;
-	};
+export const SileroLegacy: {
+	new: ModelFactory;
+	fromSession: SessionModelFactory;
+} = {
+	new: (ortInstance: typeof ort, modelFetcher: ModelFetcher) =>
+		OnnxVADModel.new(ortInstance, modelFetcher, sileroLegacyDescriptor),
 
-	reset_state = () => {
-		const zeroes = Array(2 * 64).fill(0);
-		this._h = new this.ortInstance.Tensor("float32", zeroes, [2, 1, 64]);
-		this._c = new this.ortInstance.Tensor("float32", zeroes, [2, 1, 64]);
-	};
-
-	process = async (audioFrame: Float32Array): Promise<SpeechProbabilities> => {
-		const t = new this.ortInstance.Tensor("float32", audioFrame, [
-			1,
-			audioFrame.length,
-		]);
-		const inputs = {
-			input: t,
-			h: this._h,
-			c: this._c,
-			sr: this._sr,
-		};
-		const out = await this._session.run(inputs);
-		this._h = out["hn"] as ort.Tensor;
-		this._c = out["cn"] as ort.Tensor;
-		const [isSpeech] = out["output"]?.data as unknown as [number];
-		const notSpeech = 1 - isSpeech;
-		return { notSpeech, isSpeech };
-	};
-}
+	/**
+	 * Create a model with its own recurrent state on top of an existing
+	 * session, which may be shared with other instances.
+	 */
+	fromSession: (ortInstance: typeof ort, session: ort.InferenceSession) =>
+		new OnnxVADModel(ortInstance, session, sileroLegacyDescriptor),
+};
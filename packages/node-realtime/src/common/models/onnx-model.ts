@@ -0,0 +1,157 @@
+import type * as ort from "onnxruntime-node";
+import type { FrameProcessorOptions } from "../frame-processor";
+import { log } from "../logging";
+import {
+	type Model,
+	type ModelFetcher,
+	type ModelState,
+	type SpeechProbabilities,
+	createSession,
+} from "./common";
+
+/**
+ * A recurrent state tensor, fed back from the outputs of each run into the
+ * inputs of the next one
+ */
+export interface ModelStateTensor {
+	/** Name of the input receiving the state */
+	input: string;
+	/** Name of the output holding the updated state */
+	output: string;
+	/** Shape of the state of a single stream, whose batch dimension is 1 */
+	shape: number[];
+	/** Index of the batch dimension in `shape` */
+	batchAxis: number;
+}
+
+/**
+ * Describes an ONNX VAD model: a model taking float32 audio frames of shape
+ * [batch, frameSamples] and returning one speech probability per frame.
+ */
+export interface VADModelDescriptor {
+	/** Name of the audio input */
+	input: string;
+	/** Name of the speech probability output */
+	output: string;
+	/** Name of the int64 input receiving the sample rate, if the model has one */
+	sampleRateInput?: string;
+	/** Recurrent state of the model, zero-filled for a new stream */
+	state: ModelStateTensor[];
+	/** Supported sample rates, each with the frame sizes (in samples) the model works with */
+	sampleRates: Record<number, number[]>;
+	/** Number of samples from the end of the previous frame prepended to each frame, at the sample rates that need it */
+	contextSamples?: Record<number, number>;
+	/** Frame processor options used by default with this model */
+	frameProcessorOptions: FrameProcessorOptions;
+	/** Loads the model when neither `modelPath`, `modelBuffer` nor `modelFetcher` is given */
+	fetcher?: ModelFetcher;
+}
+
+/** Number of elements of a tensor of the given shape */
+export const shapeSize = (shape: number[]): number =>
+	shape.reduce((size, dim) => size * dim, 1);
+
+/**
+ * Prepend `context` to a frame, returning the model input and the context
+ * for the next frame
+ */
+export function withContext(
+	context: Float32Array,
+	frame: Float32Array,
+): [input: Float32Array, nextContext: Float32Array] {
+	if (context.length === 0) return [frame, context];
+	const input = new Float32Array(context.length + frame.length);
+	input.set(context);
+	input.set(frame, context.length);
+	return [input, input.slice(input.length - context.length)];
+}
+
+/**
+ * Runs the model described by a VADModelDescriptor for one stream, keeping
+ * the stream's recurrent state between frames.
+ */
+export class OnnxVADModel implements Model {
+	private state: ort.Tensor[];
+	private sr: ort.Tensor | null = null;
+	private context: Float32Array;
+
+	constructor(
+		private ortInstance: typeof ort,
+		private session: ort.InferenceSession,
+		private descriptor: VADModelDescriptor,
+		sampleRate = 16000,
+	) {
+		if (descriptor.sampleRateInput) {
+			this.sr = new ortInstance.Tensor("int64", [BigInt(sampleRate)]);
+		}
+		this.context = new Float32Array(
+			descriptor.contextSamples?.[sampleRate] ?? 0,
+		);
+		this.state = this.newState();
+	}
+
+	/** Load the model with `modelFetcher` into a new session */
+	static async new(
+		ortInstance: typeof ort,
+		modelFetcher: ModelFetcher,
+		descriptor: VADModelDescriptor,
+		sampleRate = 16000,
+	): Promise<OnnxVADModel> {
+		log.debug("Loading VAD...");
+		const session = await createSession(ortInstance, modelFetcher);
+		log.debug("...finished loading VAD");
+		return new OnnxVADModel(ortInstance, session, descriptor, sampleRate);
+	}
+
+	reset_state = () => {
+		this.state = this.newState();
+		this.context = new Float32Array(this.context.length);
+	};
+
+	getState = (): ModelState => ({
+		tensors: this.state.map((tensor) =>
+			Array.from(tensor.data as Float32Array),
+		),
+		context: Array.from(this.context),
+	});
+
+	restoreState = (state: ModelState) => {
+		this.state = this.descriptor.state.map(
+			({ shape }, i) =>
+				new this.ortInstance.Tensor(
+					"float32",
+					new Float32Array(state.tensors[i] as number[]),
+					shape,
+				),
+		);
+		this.context = new Float32Array(state.context);
+	};
+
+	process = async (audioFrame: Float32Array): Promise<SpeechProbabilities> => {
+		const { input, output, sampleRateInput, state } = this.descriptor;
+		const [frame, context] = withContext(this.context, audioFrame);
+		this.context = context;
+		const feeds: Record<string, ort.Tensor> = {
+			[input]: new this.ortInstance.Tensor("float32", frame, [1, frame.length]),
+		};
+		if (sampleRateInput && this.sr) feeds[sampleRateInput] = this.sr;
+		for (let i = 0; i < state.length; i++) {
+			feeds[(state[i] as ModelStateTensor).input] = this.state[i] as ort.Tensor;
+		}
+		const out = await this.session.run(feeds);
+		this.state = state.map((tensor) => out[tensor.output] as ort.Tensor);
+		const isSpeech = (out[output]?.data as Float32Array)[0] as number;
+		return { notSpeech: 1 - isSpeech, isSpeech };
+	};
+
+	private newState(): ort.Tensor[] {
+		return this.descriptor.state.map(
+			({ shape }) =>
+				new this.ortInstance.Tensor(
+					"float32",
+					new Float32Array(shapeSize(shape)),
+					shape,
+				),
+		);
+	}
+}
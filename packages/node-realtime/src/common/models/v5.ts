@@ -1,57 +1,31 @@
 import type * as ort from "onnxruntime-node";
-import { log } from "../logging";
-import type { ModelFactory, ModelFetcher, SpeechProbabilities } from "./common";
+import { defaultV5FrameProcessorOptions } from "../frame-processor";
+import type { ModelFactory, ModelFetcher, SessionModelFactory } from "./common";
+import { OnnxVADModel, type VADModelDescriptor } from "./onnx-model";
 
-function getNewState(ortInstance: typeof ort) {
-	const zeroes = Array(2 * 128).fill(0);
-	return new ortInstance.Tensor("float32", zeroes, [2, 1, 128]);
-}
+/** Silero VAD v5 */
+export const sileroV5Descriptor: VADModelDescriptor = {
+	input: "input",
+	output: "output",
+	sampleRateInput: "sr",
+	state: [
+		{ input: "state", output: "stateN", shape: [2, 1, 128], batchAxis: 1 },
+	],
+	sampleRates: { 16000: [512], 8000: [256] },
+	// at 8000Hz the model relies on the end of the previous frame
+	contextSamples: { 8000: 32 },
+	frameProcessorOptions: defaultV5FrameProcessorOptions,
+};
 
-export class SileroV5 {
-	constructor(
-		private _session: ort.InferenceSession,
-		private _state: ort.Tensor,
-		private _sr: ort.Tensor,
-		private ortInstance: typeof ort,
-	) {}
+export const SileroV5: { new: ModelFactory; fromSession: SessionModelFactory } =
+	{
+		new: (ortInstance: typeof ort, modelFetcher: ModelFetcher) =>
+			OnnxVADModel.new(ortInstance, modelFetcher, sileroV5Descriptor),
 
-	static new: ModelFactory = async (
-		ortInstance: typeof ort,
-		modelFetcher: ModelFetcher,
-	) => {
-		log.debug("Loading VAD...");
-		const modelArrayBuffer = await modelFetcher();
-		const _session =
-			await ortInstance.InferenceSession.create(modelArrayBuffer);
-		// @ts-ignore
-		const _sr = new ortInstance.Tensor("int64", [16000n]);
-		const _state = getNewState(ortInstance);
-		log.debug("...finished loading VAD");
-		return new SileroV5(_session, _state, _sr, ortInstance);
+		/**
+		 * Create a model with its own recurrent state on top of an existing
+		 * session, which may be shared with other instances.
+		 */
+		fromSession: (ortInstance: typeof ort, session: ort.InferenceSession) =>
+			new OnnxVADModel(ortInstance, session, sileroV5Descriptor),
 	};
-
-	reset_state = () => {
-		this._state = getNewState(this.ortInstance);
-	};
-
-	process = async (audioFrame: Float32Array): Promise<SpeechProbabilities> => {
-		const t = new this.ortInstance.Tensor("float32", audioFrame, [
-			1,
-			audioFrame.length,
-		]);
-		const inputs = {
-			input: t,
-			state: this._state,
-			sr: this._sr,
-		};
-		const out = await this._session.run(inputs);
-
-		// @ts-ignore
-		this._state = out["stateN"];
-
-		// @ts-ignore
-		const [isSpeech] = out["output"]?.data;
-		const notSpeech = 1 - isSpeech;
-		return { notSpeech, isSpeech };
-	};
-}
@@ -0,0 +1,70 @@
+/** Time constant of the estimate once calibration is over */
+const ADAPTATION_MS = 5000;
+/** Standard deviations of the background speech probability kept under the positive threshold */
+const NOISE_MARGIN = 3;
+/** Energy reported for digital silence */
+const SILENCE_DB = -100;
+
+/**
+ * Speech thresholds in effect, reported by the frame processor when they
+ * change. With fixed thresholds they are the configured ones.
+ */
+export interface SpeechThresholds {
+	positiveSpeechThreshold: number;
+	negativeSpeechThreshold: number;
+	/** Estimated energy of the background noise in dBFS, with `adaptiveThresholds` */
+	noiseFloorDb?: number;
+	/** True while the background is measured after `start()`; the configured thresholds apply meanwhile */
+	calibrating: boolean;
+}
+
+/** Root mean square energy of `frame` in dBFS */
+export function frameEnergyDb(frame: Float32Array): number {
+	let sum = 0;
+	for (let i = 0; i < frame.length; i++) {
+		const sample = frame[i] as number;
+		sum += sample * sample;
+	}
+	const rms = Math.sqrt(sum / Math.max(1, frame.length));
+	return Math.max(SILENCE_DB, 20 * Math.log10(rms));
+}
+
+/**
+ * Mean and variance of the speech probability of background frames, and
+ * their mean energy. The first frames are averaged equally, so that the
+ * calibration phase measures the whole of it; later frames are averaged
+ * exponentially over about `ADAPTATION_MS`.
+ */
+export class NoiseFloor {
+	count = 0;
+	mean = 0;
+	variance = 0;
+	energyDb = SILENCE_DB;
+
+	reset(): void {
+		this.count = 0;
+		this.mean = 0;
+		this.variance = 0;
+		this.energyDb = SILENCE_DB;
+	}
+
+	/** Add a background frame lasting `frameMs` */
+	add(probability: number, energyDb: number, frameMs: number): void {
+		this.count++;
+		const weight = Math.max(1 / this.count, frameMs / ADAPTATION_MS);
+		const diff = probability - this.mean;
+		this.mean += weight * diff;
+		this.variance = (1 - weight) * (this.variance + weight * diff * diff);
+		this.energyDb += weight * (energyDb - this.energyDb);
+	}
+
+	/**
+	 * Positive threshold clearing `NOISE_MARGIN` standard deviations of the
+	 * background, between `min` and `max`, rounded to hundredths so that it
+	 * only changes when the background does
+	 */
+	positiveThreshold(min: number, max: number): number {
+		const threshold = this.mean + NOISE_MARGIN * Math.sqrt(this.variance);
+		return Math.min(max, Math.max(min, Math.round(threshold * 100) / 100));
+	}
+}
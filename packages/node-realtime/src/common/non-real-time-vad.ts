@@ -1,28 +1,60 @@
 import * as ortInstance from "onnxruntime-node";
 
+import {
+	type AudioSource,
+	PCMDecoder,
+	type SampleFormat,
+} from "../pcm-decoder";
 import { baseAssetPath } from "./asset-path";
 import { defaultModelFetcher } from "./default-model-fetcher";
+import { TypedEventEmitter } from "./event-emitter";
 import {
 	FrameProcessor,
 	type FrameProcessorEvent,
 	type FrameProcessorInterface,
 	type FrameProcessorOptions,
 	defaultLegacyFrameProcessorOptions,
+	mergeOptions,
 	validateOptions,
 } from "./frame-processor";
 import { Message } from "./messages";
 import {
 	type ModelFetcher,
+	OnnxVADModel,
 	type OrtModule,
 	type OrtOptions,
-	SileroLegacy,
+	type SpeechProbabilities,
+	sileroLegacyDescriptor,
 } from "./models";
-import { Resampler } from "./resampler";
+import { Resampler, type ResamplerQuality } from "./resampler";
 
-interface NonRealTimeVADSpeechData {
+export interface NonRealTimeVADSpeechData {
 	audio: Float32Array;
+	/** Milliseconds from the beginning of the input to the first sample of `audio` */
 	start: number;
+	/** Milliseconds from the beginning of the input to the end of `audio` */
 	end: number;
+	/** True when the segment was cut at `maxSpeechFrames`/`maxSpeechMs` */
+	forced: boolean;
+}
+
+/**
+ * Events emitted by NonRealTimeVAD while `run` is being iterated.
+ * Times are in milliseconds from the beginning of the input audio; the
+ * total duration is undefined when running over a streaming source.
+ */
+export interface NonRealTimeVADEvents {
+	frameProcessed: [
+		probabilities: SpeechProbabilities,
+		frame: Float32Array,
+		smoothedProbabilities: SpeechProbabilities,
+		skipped: boolean,
+	];
+	vadMisfire: [];
+	speechStart: [start: number];
+	speechRealStart: [];
+	speechEnd: [speech: NonRealTimeVADSpeechData];
+	progress: [processed: number, total: number | undefined];
 }
 
 export interface NonRealTimeVADOptions
@@ -30,6 +62,12 @@ export interface NonRealTimeVADOptions
 		OrtOptions {
 	modelURL: string;
 	modelFetcher: (path: string) => Promise<ArrayBuffer>;
+	/** Encoding of Buffer chunks yielded by the source passed to `run` */
+	inputFormat: SampleFormat;
+	/** Algorithm used to resample the audio passed to `run` (default: fast) */
+	resamplerQuality: ResamplerQuality;
+	/** Throw a VADConfigError instead of logging invalid options (default: false) */
+	strict: boolean;
 }
 
 export const defaultNonRealTimeVADOptions: NonRealTimeVADOptions = {
@@ -37,33 +75,57 @@ export const defaultNonRealTimeVADOptions: NonRealTimeVADOptions = {
 	ortConfig: undefined,
 	modelURL: baseAssetPath + "silero_vad_legacy.onnx",
 	modelFetcher: defaultModelFetcher,
+	inputFormat: "f32le",
+	resamplerQuality: "fast",
+	strict: false,
 };
 
-export class NonRealTimeVAD {
+export class NonRealTimeVAD extends TypedEventEmitter<NonRealTimeVADEvents> {
 	static async new(options: Partial<NonRealTimeVADOptions> = {}) {
-		const fullOptions = {
-			...defaultNonRealTimeVADOptions,
-			...options,
-		};
-		validateOptions(fullOptions);
+		const fullOptions = validateOptions(
+			mergeOptions(defaultNonRealTimeVADOptions, options),
+			{ strict: options.strict },
+		);
 
 		if (fullOptions.ortConfig !== undefined) {
 			fullOptions.ortConfig(ortInstance);
 		}
 		const modelFetcher = () => fullOptions.modelFetcher(fullOptions.modelURL);
-		const model = await SileroLegacy.new(ortInstance, modelFetcher);
+		const model = await OnnxVADModel.new(
+			ortInstance,
+			modelFetcher,
+			sileroLegacyDescriptor,
+			fullOptions.modelSampleRate,
+		);
 
 		const frameProcessor = new FrameProcessor(
 			model.process,
 			model.reset_state,
 			{
 				frameSamples: fullOptions.frameSamples,
+				modelSampleRate: fullOptions.modelSampleRate,
 				positiveSpeechThreshold: fullOptions.positiveSpeechThreshold,
 				negativeSpeechThreshold: fullOptions.negativeSpeechThreshold,
 				redemptionFrames: fullOptions.redemptionFrames,
+				redemptionMs: fullOptions.redemptionMs,
 				preSpeechPadFrames: fullOptions.preSpeechPadFrames,
+				preSpeechPadMs: fullOptions.preSpeechPadMs,
 				minSpeechFrames: fullOptions.minSpeechFrames,
+				minSpeechMs: fullOptions.minSpeechMs,
+				postSpeechPadFrames: fullOptions.postSpeechPadFrames,
+				postSpeechPadMs: fullOptions.postSpeechPadMs,
 				submitUserSpeechOnPause: fullOptions.submitUserSpeechOnPause,
+				maxSpeechFrames: fullOptions.maxSpeechFrames,
+				maxSpeechMs: fullOptions.maxSpeechMs,
+				streamSpeech: false,
+				speechChunkMs: fullOptions.speechChunkMs,
+				adaptiveThresholds: fullOptions.adaptiveThresholds,
+				minPositiveSpeechThreshold: fullOptions.minPositiveSpeechThreshold,
+				maxPositiveSpeechThreshold: fullOptions.maxPositiveSpeechThreshold,
+				calibrationMs: fullOptions.calibrationMs,
+				smoothing: fullOptions.smoothing,
+				energyGateDb: fullOptions.energyGateDb,
+				energyGateMs: fullOptions.energyGateMs,
 			},
 		);
 		frameProcessor.resume();
@@ -82,57 +144,112 @@ export class NonRealTimeVAD {
 		public ort: OrtModule,
 		public options: NonRealTimeVADOptions,
 		public frameProcessor: FrameProcessorInterface,
-	) {}
+	) {
+		super();
+	}
 
+	/**
+	 * Yield the speech segments of `inputAudio`, which is either the whole
+	 * recording or a source of chunks that is consumed as it is iterated.
+	 */
 	async *run(
-		inputAudio: Float32Array,
+		inputAudio: Float32Array | AudioSource,
 		sampleRate: number,
 	): AsyncGenerator<NonRealTimeVADSpeechData> {
 		const resamplerOptions = {
 			nativeSampleRate: sampleRate,
-			targetSampleRate: 16000,
+			targetSampleRate: this.options.modelSampleRate,
 			targetFrameSize: this.options.frameSamples,
+			quality: this.options.resamplerQuality,
 		};
 		const resampler = new Resampler(resamplerOptions);
-		let start = 0;
-		let end = 0;
+		const decoder = new PCMDecoder(this.options.inputFormat);
+		const source =
+			inputAudio instanceof Float32Array ? [inputAudio] : inputAudio;
+		const total =
+			inputAudio instanceof Float32Array
+				? (inputAudio.length / sampleRate) * 1000
+				: undefined;
 		let frameIndex = 0;
+		const frameMs =
+			(this.options.frameSamples * 1000) / this.options.modelSampleRate;
+		// segment frames are counted from the first frame of the processor
+		const firstFrame = this.frameProcessor.frameCount;
+		const toMs = (index: number) => (index - firstFrame) * frameMs;
+		const getSpeech = (
+			event: Extract<FrameProcessorEvent, { msg: Message.SpeechEnd }>,
+		): NonRealTimeVADSpeechData => ({
+			audio: event.audio,
+			start: toMs(event.segment.paddedStart),
+			end: toMs(event.segment.paddedEnd),
+			forced: event.forced,
+		});
 
 		const messageContainer: FrameProcessorEvent[] = [];
+		const handleEvent = (event: FrameProcessorEvent) => {
+			messageContainer.push(event);
+		};
+
+		for await (const chunk of source) {
+			for await (const frame of resampler.stream(decoder.toFloat32(chunk))) {
+				await this.frameProcessor.process(frame, handleEvent);
+				for (const event of messageContainer.splice(0)) {
+					switch (event.msg) {
+						case Message.FrameProcessed:
+							this.emit(
+								"frameProcessed",
+								event.probs,
+								event.frame,
+								event.smoothedProbs,
+								event.skipped,
+							);
+							break;
+
+						case Message.SpeechStart:
+							this.emit("speechStart", toMs(event.segment.paddedStart));
+							break;
+
+						case Message.SpeechRealStart:
+							this.emit("speechRealStart");
+							break;
+
+						case Message.VADMisfire:
+							this.emit("vadMisfire");
+							break;
 
-		for await (const frame of resampler.stream(inputAudio)) {
-			await this.frameProcessor.process(frame, (event) => {
-				messageContainer.push(event);
-			});
-			for (const event of messageContainer) {
-				switch (event.msg) {
-					case Message.SpeechStart:
-						start = (frameIndex * this.options.frameSamples) / 16;
-						break;
-
-					case Message.SpeechEnd:
-						end = ((frameIndex + 1) * this.options.frameSamples) / 16;
-						yield { audio: event.audio, start, end };
-						break;
-
-					default:
-						break;
+						case Message.SpeechEnd: {
+							const speech = getSpeech(event);
+							this.emit("speechEnd", speech);
+							yield speech;
+							break;
+						}
+
+						default:
+							break;
+					}
 				}
+				frameIndex++;
+				this.emit(
+					"progress",
+					Math.min(frameIndex * frameMs, total ?? Number.POSITIVE_INFINITY),
+					total,
+				);
 			}
-			frameIndex++;
 		}
 
-		const { msg, audio } = this.frameProcessor.endSegment((event) => {
-			messageContainer.push(event);
-		});
-		for (const event of messageContainer) {
+		this.frameProcessor.endSegment(handleEvent);
+		for (const event of messageContainer.splice(0)) {
 			switch (event.msg) {
-				case Message.SpeechEnd:
-					yield {
-						audio: event.audio,
-						start,
-						end: (frameIndex * this.options.frameSamples) / 16,
-					};
+				case Message.VADMisfire:
+					this.emit("vadMisfire");
+					break;
+
+				case Message.SpeechEnd: {
+					const speech = getSpeech(event);
+					this.emit("speechEnd", speech);
+					yield speech;
+					break;
+				}
 			}
 		}
 	}
@@ -0,0 +1,188 @@
+/**
+ * What to do with a chunk that arrives while the queue is full:
+ * - `block`: wait until a queued chunk has been processed
+ * - `drop-oldest`: discard the oldest queued chunk to make room
+ * - `drop-newest`: discard the incoming chunk
+ * - `error`: reject the incoming chunk with a QueueOverflowError
+ */
+export type OverflowPolicy = "block" | "drop-oldest" | "drop-newest" | "error"
+
+export const OVERFLOW_POLICIES: OverflowPolicy[] = [
+  "block",
+  "drop-oldest",
+  "drop-newest",
+  "error",
+]
+
+export interface ProcessingQueueOptions {
+  /** Maximum number of chunks waiting to be processed */
+  maxQueueLength: number
+  /** What happens to chunks arriving while `maxQueueLength` chunks are waiting */
+  overflowPolicy: OverflowPolicy
+}
+
+/**
+ * Passed to the overflow handler each time a chunk arrives at a full queue
+ */
+export interface QueueOverflow<T> {
+  policy: OverflowPolicy
+  /** Number of chunks waiting when the overflow happened */
+  queueLength: number
+  /** The chunk that was discarded, if any */
+  dropped: T | null
+}
+
+export class QueueOverflowError extends Error {
+  constructor(public readonly queueLength: number) {
+    super(`Processing queue is full: ${queueLength} chunks waiting`)
+    this.name = "QueueOverflowError"
+    // keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, QueueOverflowError.prototype)
+  }
+}
+
+type Entry<T> = {
+  resolve: () => void
+  reject: (error: Error) => void
+} & ({ kind: "chunk"; item: T } | { kind: "task"; task: () => Promise<void> })
+
+/**
+ * Processes chunks strictly one after another, in the order they were
+ * pushed, so that concurrent callers cannot interleave their processing.
+ * Each returned promise settles once its chunk has been processed, or
+ * resolves as soon as the chunk is dropped by the overflow policy.
+ */
+export class ProcessingQueue<T> {
+  private entries: Entry<T>[] = []
+  private blocked: Entry<T>[] = []
+  /** Number of chunks (not tasks) in `entries` */
+  private queued = 0
+  private running = false
+
+  constructor(
+    private processItem: (item: T) => Promise<void>,
+    private options: ProcessingQueueOptions,
+    private onOverflow: (overflow: QueueOverflow<T>) => void
+  ) {}
+
+  /** Number of chunks waiting to be processed, excluding the current one */
+  get length(): number {
+    return this.queued + this.blocked.filter((e) => e.kind === "chunk").length
+  }
+
+  /** Whether a chunk or task is being processed */
+  get busy(): boolean {
+    return this.running
+  }
+
+  /** Queue a chunk, applying the overflow policy if the queue is full */
+  push(item: T): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const entry: Entry<T> = { kind: "chunk", item, resolve, reject }
+      if (!this.running || this.queued < this.options.maxQueueLength) {
+        this.enqueue(entry)
+        return
+      }
+
+      const queueLength = this.length
+      const { overflowPolicy: policy } = this.options
+      switch (policy) {
+        case "block":
+          this.blocked.push(entry)
+          this.onOverflow({ policy, queueLength, dropped: null })
+          break
+        case "drop-newest":
+          this.onOverflow({ policy, queueLength, dropped: item })
+          resolve()
+          break
+        case "drop-oldest": {
+          const index = this.entries.findIndex((e) => e.kind === "chunk")
+          if (index === -1) {
+            // only possible with maxQueueLength 0: nothing older to drop
+            this.onOverflow({ policy, queueLength, dropped: item })
+            resolve()
+            break
+          }
+          const [oldest] = this.entries.splice(index, 1) as [Entry<T>]
+          this.queued--
+          this.onOverflow({
+            policy,
+            queueLength,
+            dropped: oldest.kind === "chunk" ? oldest.item : null,
+          })
+          oldest.resolve()
+          this.enqueue(entry)
+          break
+        }
+        case "error":
+          this.onOverflow({ policy, queueLength, dropped: item })
+          reject(new QueueOverflowError(queueLength))
+          break
+      }
+    })
+  }
+
+  /**
+   * Run a task after every chunk queued so far. Tasks are never dropped and
+   * do not count towards `maxQueueLength`.
+   */
+  run(task: () => Promise<void>): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const entry: Entry<T> = { kind: "task", task, resolve, reject }
+      // stay behind chunks that are blocked waiting for a free slot
+      if (this.blocked.length > 0) this.blocked.push(entry)
+      else this.entries.push(entry)
+      if (!this.running) this.next()
+    })
+  }
+
+  /** Discard every waiting chunk and task, resolving their promises */
+  clear(): void {
+    const discarded = this.entries.splice(0).concat(this.blocked.splice(0))
+    this.queued = 0
+    for (const entry of discarded) {
+      entry.resolve()
+    }
+  }
+
+  private enqueue(entry: Entry<T>): void {
+    this.entries.push(entry)
+    this.queued++
+    if (!this.running) this.next()
+  }
+
+  /** Move blocked entries into the queue, in order, while there is room */
+  private admitBlocked(): void {
+    while (this.blocked.length > 0) {
+      const entry = this.blocked[0] as Entry<T>
+      const isChunk = entry.kind === "chunk"
+      if (isChunk && this.queued >= this.options.maxQueueLength) return
+      this.blocked.shift()
+      this.entries.push(entry)
+      if (isChunk) this.queued++
+    }
+  }
+
+  private next(): void {
+    if (this.entries.length === 0 && this.blocked.length > 0) {
+      // nothing else is waiting, so the first blocked entry can run now
+      const first = this.blocked.shift() as Entry<T>
+      this.entries.push(first)
+      if (first.kind === "chunk") this.queued++
+    }
+    const entry = this.entries.shift()
+    if (!entry) {
+      this.running = false
+      return
+    }
+    this.running = true
+    if (entry.kind === "chunk") {
+      this.queued--
+      this.admitBlocked()
+    }
+
+    const work =
+      entry.kind === "chunk" ? this.processItem(entry.item) : entry.task()
+    work.then(entry.resolve, entry.reject).then(() => this.next())
+  }
+}
@@ -1,85 +1,344 @@
 import { log } from "./logging"
+import { RingBuffer } from "./ring-buffer"
+
+/**
+ * Resampling algorithm:
+ * - `fast`: averages the input samples falling into each output sample.
+ *   Cheap, but aliases and cannot upsample
+ * - `medium`: windowed-sinc filter with 8 zero crossings on each side
+ * - `high`: windowed-sinc filter with 32 zero crossings on each side and a
+ *   cutoff closer to the Nyquist frequency
+ */
+export type ResamplerQuality = "fast" | "medium" | "high"
+
+export const RESAMPLER_QUALITIES: ResamplerQuality[] = [
+  "fast",
+  "medium",
+  "high",
+]
 
 interface ResamplerOptions {
   nativeSampleRate: number
   targetSampleRate: number
   targetFrameSize: number
+  /** Resampling algorithm (default: fast); `fast` upsamples with `medium` */
+  quality?: ResamplerQuality
+}
+
+interface SincParameters {
+  /** Zero crossings of the sinc on each side of the filter */
+  zeroCrossings: number
+  /** Cutoff as a fraction of the lower of the two Nyquist frequencies */
+  rolloff: number
+  /** Kaiser window shape */
+  beta: number
+}
+
+/**
+ * Samples held by a Resampler between calls, as plain data so that it
+ * survives JSON; see `Resampler.getState`
+ */
+export interface ResamplerState {
+  /** Input samples still needed by the sinc filter, or of the `fast` block */
+  input: number[]
+  /** Index in `input` of the sample at or before the next sinc output sample */
+  position: number
+  phase: number
+  /** Resampled samples not yet returned in a frame */
+  output: number[]
+}
+
+const SINC_PARAMETERS: Record<
+  Exclude<ResamplerQuality, "fast">,
+  SincParameters
+> = {
+  medium: { zeroCrossings: 8, rolloff: 0.9, beta: 6 },
+  high: { zeroCrossings: 32, rolloff: 0.95, beta: 8.6 },
 }
 
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+
+/** Zeroth-order modified Bessel function of the first kind */
+function besselI0(x: number): number {
+  let sum = 1
+  let term = 1
+  for (let k = 1; term > sum * 1e-12; k++) {
+    term *= (x / (2 * k)) ** 2
+    sum += term
+  }
+  return sum
+}
+
+/**
+ * Polyphase windowed-sinc resampler. The rate ratio is reduced to
+ * `up / down`, so output sample `n` lies at input position `n * down / up`
+ * and its filter only depends on the phase `n * down % up`. Filters are
+ * computed the first time their phase is used.
+ *
+ * Samples before the first input are taken as silence, and the position of
+ * the next output sample is kept between calls, so audio split into chunks
+ * of any size is resampled exactly like the whole.
+ */
+class SincResampler {
+  private up: number
+  private down: number
+  /** Input samples on each side of an output sample that its filter uses */
+  private halfTaps: number
+  private cutoff: number
+  private halfLength: number
+  private beta: number
+  private filters: Array<Float32Array | undefined>
+
+  /**
+   * Input samples still needed by upcoming output samples, kept contiguous
+   * for the filter loop: consumed samples are shifted out after each call
+   */
+  private history: Float32Array
+  private historyLength: number
+  /** Index in `history` of the input sample at or before the next output sample */
+  private position: number
+  /** Phase of the next output sample, between 0 and `up - 1` */
+  private phase = 0
+
+  constructor(options: ResamplerOptions, params: SincParameters) {
+    const divisor = gcd(options.nativeSampleRate, options.targetSampleRate)
+    this.up = options.targetSampleRate / divisor
+    this.down = options.nativeSampleRate / divisor
+    // relative to the input Nyquist frequency
+    this.cutoff = params.rolloff * Math.min(1, this.up / this.down)
+    this.halfLength = params.zeroCrossings / this.cutoff
+    this.halfTaps = Math.ceil(this.halfLength)
+    this.beta = params.beta
+    this.filters = new Array(this.up)
+    this.history = new Float32Array(4 * this.halfTaps)
+    this.historyLength = this.halfTaps - 1
+    this.position = this.halfTaps - 1
+  }
+
+  resample(audio: Float32Array, output: RingBuffer): void {
+    const needed = this.historyLength + audio.length
+    if (needed > this.history.length) {
+      const history = new Float32Array(
+        Math.max(needed, 2 * this.history.length)
+      )
+      history.set(this.history.subarray(0, this.historyLength))
+      this.history = history
+    }
+    const history = this.history
+    history.set(audio, this.historyLength)
+    this.historyLength = needed
+
+    const taps = 2 * this.halfTaps
+    while (this.position + this.halfTaps < this.historyLength) {
+      const filter = this.getFilter(this.phase)
+      const start = this.position - this.halfTaps + 1
+      let sum = 0
+      for (let k = 0; k < taps; k++) {
+        sum += (filter[k] as number) * (history[start + k] as number)
+      }
+      output.push(sum)
+
+      this.phase += this.down
+      this.position += Math.floor(this.phase / this.up)
+      this.phase %= this.up
+    }
+
+    const consumed = this.position - (this.halfTaps - 1)
+    history.copyWithin(0, consumed, this.historyLength)
+    this.historyLength -= consumed
+    this.position -= consumed
+  }
+
+  getState(): Pick<ResamplerState, "input" | "position" | "phase"> {
+    return {
+      input: Array.from(this.history.subarray(0, this.historyLength)),
+      position: this.position,
+      phase: this.phase,
+    }
+  }
+
+  restoreState(state: Pick<ResamplerState, "input" | "position" | "phase">) {
+    if (state.input.length > this.history.length) {
+      this.history = new Float32Array(state.input.length)
+    }
+    this.history.set(state.input)
+    this.historyLength = state.input.length
+    this.position = state.position
+    this.phase = state.phase
+  }
+
+  /**
+   * Filter for an output sample `phase / up` input samples after
+   * `history[position]`, applied to the `2 * halfTaps` input samples
+   * starting `halfTaps - 1` samples before it
+   */
+  private getFilter(phase: number): Float32Array {
+    const cached = this.filters[phase]
+    if (cached) return cached
+
+    const filter = new Float32Array(2 * this.halfTaps)
+    const offset = phase / this.up
+    const norm = besselI0(this.beta)
+    let total = 0
+    for (let k = 0; k < filter.length; k++) {
+      const x = k - (this.halfTaps - 1) - offset
+      const r = x / this.halfLength
+      if (Math.abs(r) >= 1) continue
+      const t = Math.PI * this.cutoff * x
+      const sinc = t === 0 ? 1 : Math.sin(t) / t
+      const window = besselI0(this.beta * Math.sqrt(1 - r * r)) / norm
+      filter[k] = this.cutoff * sinc * window
+      total += filter[k] as number
+    }
+    // unity gain at DC whatever the phase
+    for (let k = 0; k < filter.length; k++) {
+      filter[k] = (filter[k] as number) / total
+    }
+    this.filters[phase] = filter
+    return filter
+  }
+}
+
+/**
+ * Converts audio to `targetSampleRate` and cuts it into frames of
+ * `targetFrameSize` samples. Samples go through preallocated buffers that
+ * keep their size from one chunk to the next, so the only allocations in
+ * steady state are the returned frames.
+ */
 export class Resampler {
-  inputBuffer: Array<number>
+  private sinc: SincResampler | null = null
+  /** Resampled samples not yet returned in a frame */
+  private output: RingBuffer
+  /** Input samples averaged into one frame by the `fast` algorithm */
+  private block: Float32Array
+  private blockLength = 0
 
   constructor(public options: ResamplerOptions) {
-    if (options.nativeSampleRate < 16000) {
-      log.error(
-        "nativeSampleRate is too low. Should have 16000 = targetSampleRate <= nativeSampleRate"
+    const quality = options.quality ?? "fast"
+    if (!RESAMPLER_QUALITIES.includes(quality)) {
+      throw new Error(`Unknown resampler quality "${quality}"`)
+    }
+    if (quality !== "fast") {
+      this.sinc = new SincResampler(options, SINC_PARAMETERS[quality])
+    } else if (options.nativeSampleRate < options.targetSampleRate) {
+      log.debug(
+        `fast resampling cannot upsample ${options.nativeSampleRate}Hz to ${options.targetSampleRate}Hz, using medium quality`
       )
+      this.sinc = new SincResampler(options, SINC_PARAMETERS.medium)
     }
-    this.inputBuffer = []
+    this.output = new RingBuffer(2 * options.targetFrameSize)
+    this.block = new Float32Array(this.sinc ? 0 : this.fastBlockSize())
   }
 
   process = (audioFrame: Float32Array): Float32Array[] => {
+    this.resample(audioFrame, this.output)
     const outputFrames: Array<Float32Array> = []
-
-    for (const sample of audioFrame) {
-      this.inputBuffer.push(sample)
-
-      while (this.hasEnoughDataForFrame()) {
-        const outputFrame = this.generateOutputFrame()
-        outputFrames.push(outputFrame)
-      }
+    while (this.output.length >= this.options.targetFrameSize) {
+      outputFrames.push(this.nextFrame())
     }
-
     return outputFrames
   }
 
   stream = async function* (audioInput: Float32Array) {
-    for (const sample of audioInput) {
-      this.inputBuffer.push(sample)
+    this.resample(audioInput, this.output)
+    while (this.output.length >= this.options.targetFrameSize) {
+      yield this.nextFrame()
+    }
+  }
 
-      while (this.hasEnoughDataForFrame()) {
-        const outputFrame = this.generateOutputFrame()
-        yield outputFrame
+  /** Copy of the samples held between calls, from which `restoreState` resumes */
+  getState(): ResamplerState {
+    return {
+      ...(this.sinc?.getState() ?? {
+        input: Array.from(this.block.subarray(0, this.blockLength)),
+        position: 0,
+        phase: 0,
+      }),
+      output: Array.from(this.output.toArray()),
+    }
+  }
+
+  /** Resume from a state returned by `getState` with the same options */
+  restoreState(state: ResamplerState): void {
+    if (this.sinc) {
+      this.sinc.restoreState(state)
+    } else {
+      this.block.set(state.input.slice(0, this.block.length))
+      this.blockLength = Math.min(state.input.length, this.block.length)
+    }
+    this.output.clear()
+    this.output.write(new Float32Array(state.output))
+  }
+
+  /**
+   * Append the resampled audio to `output` instead of cutting it into
+   * frames. With `fast`, samples are appended a whole frame at a time.
+   */
+  resample(audio: Float32Array, output: RingBuffer): void {
+    if (this.sinc) {
+      this.sinc.resample(audio, output)
+      return
+    }
+    for (let i = 0; i < audio.length; i++) {
+      this.block[this.blockLength++] = audio[i] as number
+      if (this.blockLength === this.block.length) {
+        this.averageBlock(output)
+        this.blockLength = 0
       }
     }
   }
 
-  private hasEnoughDataForFrame(): boolean {
-    return (
-      (this.inputBuffer.length * this.options.targetSampleRate) /
-        this.options.nativeSampleRate >=
-      this.options.targetFrameSize
+  private nextFrame(): Float32Array {
+    const frame = new Float32Array(this.options.targetFrameSize)
+    this.output.read(frame)
+    return frame
+  }
+
+  /**
+   * Number of input samples averaged into each frame: the smallest count
+   * whose duration covers `targetFrameSize` output samples
+   */
+  private fastBlockSize(): number {
+    const { nativeSampleRate, targetSampleRate, targetFrameSize } = this.options
+    let size = Math.max(
+      1,
+      Math.floor((targetFrameSize * nativeSampleRate) / targetSampleRate)
     )
+    while ((size * targetSampleRate) / nativeSampleRate < targetFrameSize) {
+      size++
+    }
+    while (
+      size > 1 &&
+      ((size - 1) * targetSampleRate) / nativeSampleRate >= targetFrameSize
+    ) {
+      size--
+    }
+    return size
   }
 
-  private generateOutputFrame(): Float32Array {
-    const outputFrame = new Float32Array(this.options.targetFrameSize)
-    let outputIndex = 0
+  private averageBlock(output: RingBuffer): void {
     let inputIndex = 0
 
-    while (outputIndex < this.options.targetFrameSize) {
+    for (
+      let outputIndex = 0;
+      outputIndex < this.options.targetFrameSize;
+      outputIndex++
+    ) {
       let sum = 0
       let num = 0
       while (
         inputIndex <
         Math.min(
-          this.inputBuffer.length,
+          this.block.length,
           ((outputIndex + 1) * this.options.nativeSampleRate) /
             this.options.targetSampleRate
         )
       ) {
-        const value = this.inputBuffer[inputIndex]
-        if (value !== undefined) {
-          sum += value
-          num++
-        }
+        sum += this.block[inputIndex] as number
+        num++
         inputIndex++
       }
-      outputFrame[outputIndex] = sum / num
-      outputIndex++
+      output.push(sum / num)
     }
-
-    this.inputBuffer = this.inputBuffer.slice(inputIndex)
-    return outputFrame
   }
 }
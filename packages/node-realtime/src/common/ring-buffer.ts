@@ -0,0 +1,97 @@
+/**
+ * FIFO of audio samples stored in a Float32Array used as a ring. The
+ * capacity is a power of two and doubles when a write does not fit, so once
+ * the buffer has reached its working size its storage is never reallocated.
+ */
+export class RingBuffer {
+	private data: Float32Array;
+	private mask: number;
+	/** Index in `data` of the oldest sample */
+	private head = 0;
+	private size = 0;
+
+	constructor(capacity = 1024) {
+		let pow2 = 1;
+		while (pow2 < capacity) pow2 *= 2;
+		this.data = new Float32Array(pow2);
+		this.mask = pow2 - 1;
+	}
+
+	/** Number of samples held */
+	get length(): number {
+		return this.size;
+	}
+
+	/** Sample at `index`, counted from the oldest one */
+	get(index: number): number {
+		return this.data[(this.head + index) & this.mask] as number;
+	}
+
+	/** Append one sample */
+	push(sample: number): void {
+		if (this.size === this.data.length) this.reserve(1);
+		this.data[(this.head + this.size) & this.mask] = sample;
+		this.size++;
+	}
+
+	/** Append all of `samples` */
+	write(samples: Float32Array): void {
+		this.reserve(samples.length);
+		const tail = (this.head + this.size) & this.mask;
+		const first = Math.min(samples.length, this.data.length - tail);
+		this.data.set(samples.subarray(0, first), tail);
+		if (first < samples.length) this.data.set(samples.subarray(first));
+		this.size += samples.length;
+	}
+
+	/** Move the oldest `output.length` samples into `output` */
+	read(output: Float32Array): void {
+		if (output.length > this.size) {
+			throw new Error(
+				`Cannot read ${output.length} samples from a buffer holding ${this.size}`,
+			);
+		}
+		const first = Math.min(output.length, this.data.length - this.head);
+		output.set(this.data.subarray(this.head, this.head + first));
+		if (first < output.length) {
+			output.set(this.data.subarray(0, output.length - first), first);
+		}
+		this.discard(output.length);
+	}
+
+	/** Copy of the samples held, oldest first, leaving them in the buffer */
+	toArray(): Float32Array {
+		const samples = new Float32Array(this.size);
+		for (let i = 0; i < this.size; i++) {
+			samples[i] = this.get(i);
+		}
+		return samples;
+	}
+
+	/** Drop the oldest `count` samples */
+	discard(count: number): void {
+		const n = Math.min(count, this.size);
+		this.head = (this.head + n) & this.mask;
+		this.size -= n;
+	}
+
+	clear(): void {
+		this.head = 0;
+		this.size = 0;
+	}
+
+	/** Grow so that `count` more samples fit, keeping the samples in order */
+	private reserve(count: number): void {
+		const needed = this.size + count;
+		if (needed <= this.data.length) return;
+		let capacity = this.data.length * 2;
+		while (capacity < needed) capacity *= 2;
+		const data = new Float32Array(capacity);
+		for (let i = 0; i < this.size; i++) {
+			data[i] = this.get(i);
+		}
+		this.data = data;
+		this.mask = capacity - 1;
+		this.head = 0;
+	}
+}
@@ -83,6 +83,26 @@ function interleave(inputL: Float32Array, inputR: Float32Array) {
 	return result;
 }
 
+/**
+ * Split interleaved samples (`L R L R ...`) into one array per channel.
+ * Trailing samples that do not form a whole frame are ignored.
+ */
+export function deinterleave(
+	input: Float32Array,
+	channels: number,
+): Float32Array[] {
+	const length = Math.floor(input.length / channels);
+	const result: Float32Array[] = [];
+	for (let channel = 0; channel < channels; channel++) {
+		const output = new Float32Array(length);
+		for (let i = 0; i < length; i++) {
+			output[i] = input[i * channels + channel] as number;
+		}
+		result.push(output);
+	}
+	return result;
+}
+
 function writeFloat32(output: DataView, offset: number, input: Float32Array) {
 	for (var i = 0; i < input.length; i++, offset += 4) {
 		output.setFloat32(offset, input[i] as number, true);
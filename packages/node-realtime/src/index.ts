@@ -1,35 +1,85 @@
-import * as fs from "node:fs/promises";
 import * as ort from "onnxruntime-node";
 import {
 	FrameProcessor,
 	type FrameProcessorOptions,
 	Message,
+	ModelLoadError,
+	type ModelStateTensor,
+	OnnxVADModel,
+	OptionsUpdateError,
 	Resampler,
+	type ResamplerQuality,
+	type SmoothingOptions,
+	type SpeechThresholds,
+	VADConfigError,
+	type VADConfigViolation,
+	type VADModelDescriptor,
 	utils,
 } from "./common";
 
+import { BatchScheduler, type BatchSchedulerOptions } from "./batch-scheduler";
+import { ChannelMixer, type ChannelStrategy } from "./channel-mixer";
+import {
+	type OverflowPolicy,
+	QueueOverflowError,
+} from "./common/processing-queue";
+import type { ModelSourceOptions } from "./model-fetcher";
+import {
+	getModelDescriptor,
+	getModelFetcher,
+	getRegisteredModels,
+	registerModel,
+} from "./model-registry";
+import {
+	type AudioInput,
+	type AudioSource,
+	PCMDecoder,
+	type SampleFormat,
+} from "./pcm-decoder";
 import {
 	RealTimeVAD as BaseRealTimeVAD,
 	DEFAULT_MODEL,
+	LIVE_OPTIONS,
+	type ModelVersion,
+	type RealTimeVADEvents,
 	type RealTimeVADOptions,
+	type RealTimeVADState,
+	type SpeechSegment,
+	type VADEventTiming,
+	type VADOverflow,
+	type VADStats,
+	type VADTimestamp,
+	VAD_STATE_VERSION,
 	getDefaultRealTimeVADOptions,
+	validateRealTimeVADOptions,
 } from "./real-time-vad";
-
-const LEGACY_MODEL_PATH = `${__dirname}/silero_vad_legacy.onnx`;
-const V5_MODEL_PATH = `${__dirname}/silero_vad_v5.onnx`;
-
-const fetchLegacyModel = async (): Promise<ArrayBuffer> => {
-	const data = await fs.readFile(LEGACY_MODEL_PATH);
-	return data.buffer;
-};
-
-const fetchV5Model = async (): Promise<ArrayBuffer> => {
-	const data = await fs.readFile(V5_MODEL_PATH);
-	return data.buffer;
-};
+import {
+	RealTimeVADStream as BaseRealTimeVADStream,
+	type RealTimeVADStreamEvent,
+	type RealTimeVADStreamOptions,
+} from "./real-time-vad-stream";
+import { VADSessionPool, type VADSessionPoolOptions } from "./session-pool";
+import { VADWorkerPool, type VADWorkerPoolOptions } from "./worker-pool";
+import {
+	WorkerRealTimeVAD,
+	type WorkerRealTimeVADOptions,
+} from "./worker-real-time-vad";
 
 export { NonRealTimeVAD } from "./common/non-real-time-vad";
-export type { NonRealTimeVADOptions } from "./common/non-real-time-vad";
+export type {
+	NonRealTimeVADEvents,
+	NonRealTimeVADOptions,
+	NonRealTimeVADSpeechData,
+} from "./common/non-real-time-vad";
+
+/**
+ * Fetcher of the model's default location, looked up once the options have
+ * been validated so that an unknown model is reported like other options
+ */
+const defaultFetcher =
+	(model: ModelVersion = DEFAULT_MODEL) =>
+	(): Promise<ArrayBuffer> =>
+		getModelFetcher(model)();
 
 /**
  * RealTimeVAD with selectable model version (v5 default)
@@ -38,22 +88,81 @@ export class RealTimeVAD extends BaseRealTimeVAD {
 	static override async new(
 		options: Partial<RealTimeVADOptions> = {},
 	): Promise<RealTimeVAD> {
-		// determine which model to use
-		const modelVersion = options.model ?? DEFAULT_MODEL;
-		const fetcher = modelVersion === "v5" ? fetchV5Model : fetchLegacyModel;
-		// build full defaults including correct frame processor opts
-		const defaults = getDefaultRealTimeVADOptions(modelVersion);
-		const opts = { ...defaults, ...options };
-		return BaseRealTimeVAD.new(ort, fetcher, opts) as Promise<RealTimeVAD>;
+		return BaseRealTimeVAD.new(
+			ort,
+			defaultFetcher(options.model),
+			options,
+		) as Promise<RealTimeVAD>;
+	}
+}
+
+/**
+ * Transform stream over a RealTimeVAD with selectable model version (v5 default)
+ */
+export class RealTimeVADStream extends BaseRealTimeVADStream {
+	static override async new(
+		options: RealTimeVADStreamOptions = {},
+	): Promise<RealTimeVADStream> {
+		return BaseRealTimeVADStream.new(
+			ort,
+			defaultFetcher(options.model),
+			options,
+		) as Promise<RealTimeVADStream>;
 	}
 }
 
 export {
+	BatchScheduler,
+	ChannelMixer,
 	DEFAULT_MODEL,
 	FrameProcessor,
+	LIVE_OPTIONS,
 	Message,
+	ModelLoadError,
+	OnnxVADModel,
+	OptionsUpdateError,
+	PCMDecoder,
+	QueueOverflowError,
 	Resampler,
+	VAD_STATE_VERSION,
+	VADConfigError,
+	VADSessionPool,
+	VADWorkerPool,
+	WorkerRealTimeVAD,
 	getDefaultRealTimeVADOptions,
+	getModelDescriptor,
+	getRegisteredModels,
+	registerModel,
 	utils,
+	validateRealTimeVADOptions,
+};
+export type {
+	AudioInput,
+	AudioSource,
+	BatchSchedulerOptions,
+	ChannelStrategy,
+	FrameProcessorOptions,
+	ModelSourceOptions,
+	ModelStateTensor,
+	ModelVersion,
+	OverflowPolicy,
+	RealTimeVADEvents,
+	RealTimeVADOptions,
+	RealTimeVADState,
+	RealTimeVADStreamEvent,
+	RealTimeVADStreamOptions,
+	ResamplerQuality,
+	SampleFormat,
+	SmoothingOptions,
+	SpeechSegment,
+	SpeechThresholds,
+	VADConfigViolation,
+	VADEventTiming,
+	VADModelDescriptor,
+	VADOverflow,
+	VADSessionPoolOptions,
+	VADStats,
+	VADTimestamp,
+	VADWorkerPoolOptions,
+	WorkerRealTimeVADOptions,
 };
-export type { FrameProcessorOptions, RealTimeVADOptions };
@@ -0,0 +1,116 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { type ModelFetcher, ModelLoadError } from "./common";
+import type { ModelVersion } from "./real-time-vad";
+
+/**
+ * Where the model is loaded from when the bundled model files are not used.
+ * At most one of these can be given.
+ */
+export interface ModelSourceOptions {
+	/** Path of an ONNX model file */
+	modelPath?: string;
+	/** ONNX model already loaded in memory */
+	modelBuffer?: ArrayBuffer | ArrayBufferView;
+	/** Function resolving to the ONNX model */
+	modelFetcher?: ModelFetcher;
+}
+
+/**
+ * A model fetcher together with the key identifying its model in a
+ * VADSessionPool
+ */
+export interface ModelSource {
+	fetcher: ModelFetcher;
+	key: string;
+}
+
+/**
+ * Fetcher reading a model file; `hint` is appended to the error when the
+ * file does not exist
+ */
+export const readModelFile =
+	(file: string, hint = ""): ModelFetcher =>
+	async () => {
+		let data: Buffer;
+		try {
+			data = await fs.readFile(file);
+		} catch (e) {
+			const error = e as NodeJS.ErrnoException;
+			throw new ModelLoadError(
+				error.code === "ENOENT"
+					? `VAD model file not found: ${file}${hint}`
+					: `Could not read VAD model file ${file}: ${error.message}`,
+			);
+		}
+		return data.buffer.slice(
+			data.byteOffset,
+			data.byteOffset + data.byteLength,
+		) as ArrayBuffer;
+	};
+
+const fetcherIds = new WeakMap<ModelFetcher, number>();
+let nextFetcherId = 0;
+
+/**
+ * Pick the fetcher for the model given by `options`, falling back to
+ * `defaultFetcher`. Sessions are shared between instances loading the same
+ * file, identical buffers or the same fetcher function.
+ */
+export function resolveModelSource(
+	modelVersion: ModelVersion,
+	options: ModelSourceOptions,
+	defaultFetcher: ModelFetcher,
+): ModelSource {
+	const { modelPath, modelBuffer, modelFetcher } = options;
+	const given = [modelPath, modelBuffer, modelFetcher].filter(
+		(source) => source !== undefined,
+	);
+	if (given.length > 1) {
+		throw new Error(
+			"Only one of modelPath, modelBuffer and modelFetcher can be set",
+		);
+	}
+
+	if (modelPath !== undefined) {
+		const file = path.resolve(modelPath);
+		return { fetcher: readModelFile(file), key: `${modelVersion}:${file}` };
+	}
+	if (modelBuffer !== undefined) {
+		const bytes = toBytes(modelBuffer);
+		const hash = createHash("sha1").update(bytes).digest("hex");
+		return {
+			fetcher: async () =>
+				bytes.buffer.slice(
+					bytes.byteOffset,
+					bytes.byteOffset + bytes.byteLength,
+				) as ArrayBuffer,
+			key: `${modelVersion}:sha1-${hash}`,
+		};
+	}
+	if (modelFetcher !== undefined) {
+		if (typeof modelFetcher !== "function") {
+			throw new Error("modelFetcher must be a function");
+		}
+		let id = fetcherIds.get(modelFetcher);
+		if (id === undefined) {
+			id = nextFetcherId++;
+			fetcherIds.set(modelFetcher, id);
+		}
+		return { fetcher: modelFetcher, key: `${modelVersion}:fetcher-${id}` };
+	}
+	return { fetcher: defaultFetcher, key: modelVersion };
+}
+
+function toBytes(modelBuffer: ArrayBuffer | ArrayBufferView): Uint8Array {
+	if (modelBuffer instanceof ArrayBuffer) return new Uint8Array(modelBuffer);
+	if (ArrayBuffer.isView(modelBuffer)) {
+		return new Uint8Array(
+			modelBuffer.buffer,
+			modelBuffer.byteOffset,
+			modelBuffer.byteLength,
+		);
+	}
+	throw new Error("modelBuffer must be an ArrayBuffer or a Buffer");
+}
@@ -0,0 +1,90 @@
+import {
+	type ModelFetcher,
+	ModelLoadError,
+	type VADModelDescriptor,
+	sileroLegacyDescriptor,
+	sileroV5Descriptor,
+} from "./common";
+import { readModelFile } from "./model-fetcher";
+import type { ModelVersion } from "./real-time-vad";
+
+const BUNDLED_HINT =
+	" (when bundling, copy the model next to the bundle or set modelPath, modelBuffer or modelFetcher)";
+
+const registry = new Map<string, VADModelDescriptor>([
+	[
+		"v5",
+		{
+			...sileroV5Descriptor,
+			fetcher: readModelFile(`${__dirname}/silero_vad_v5.onnx`, BUNDLED_HINT),
+		},
+	],
+	[
+		"legacy",
+		{
+			...sileroLegacyDescriptor,
+			fetcher: readModelFile(
+				`${__dirname}/silero_vad_legacy.onnx`,
+				BUNDLED_HINT,
+			),
+		},
+	],
+]);
+
+/**
+ * Make a model available under `name`, to be selected with the `model`
+ * option. Models are registered per thread: WorkerRealTimeVAD sends the
+ * descriptor to its worker, but not its `fetcher`.
+ */
+export function registerModel(
+	name: string,
+	descriptor: VADModelDescriptor,
+): void {
+	if (registry.has(name)) {
+		throw new Error(`VAD model "${name}" is already registered`);
+	}
+	for (const { input, shape, batchAxis } of descriptor.state) {
+		if (shape[batchAxis] !== 1) {
+			throw new Error(
+				`State "${input}" of VAD model "${name}" must have a batch dimension of 1 at index ${batchAxis}`,
+			);
+		}
+	}
+	if (Object.keys(descriptor.sampleRates).length === 0) {
+		throw new Error(
+			`VAD model "${name}" must support at least one sample rate`,
+		);
+	}
+	registry.set(name, descriptor);
+}
+
+/** Descriptor of a registered model */
+export function getModelDescriptor(name: ModelVersion): VADModelDescriptor {
+	const descriptor = registry.get(name);
+	if (!descriptor) {
+		throw new Error(
+			`Unknown VAD model "${name}"; registered models: ${getRegisteredModels().join(", ")}`,
+		);
+	}
+	return descriptor;
+}
+
+/** Names of the registered models */
+export function getRegisteredModels(): string[] {
+	return Array.from(registry.keys());
+}
+
+/**
+ * Fetcher loading a registered model from its default location: the model
+ * files bundled with the package for the built-in models
+ */
+export const getModelFetcher = (modelVersion: ModelVersion): ModelFetcher => {
+	const { fetcher } = getModelDescriptor(modelVersion);
+	if (fetcher) return fetcher;
+	return () =>
+		Promise.reject(
+			new ModelLoadError(
+				`VAD model "${modelVersion}" has no default location; set modelPath, modelBuffer or modelFetcher`,
+			),
+		);
+};
@@ -0,0 +1,184 @@
+/**
+ * Sample encodings accepted for raw audio bytes. All multi-byte formats are
+ * little-endian; `mulaw` and `alaw` are 8-bit G.711 companded samples.
+ */
+export type SampleFormat =
+	| "f32le"
+	| "s16le"
+	| "s24le"
+	| "s32le"
+	| "u8"
+	| "mulaw"
+	| "alaw";
+
+/**
+ * Audio accepted by the VADs: Float32 samples in [-1, 1], 16-bit signed
+ * samples, or raw bytes encoded as the configured `SampleFormat`
+ */
+export type AudioInput = Float32Array | Int16Array | Buffer;
+
+/**
+ * A source of audio chunks, e.g. a Node.js Readable, a web ReadableStream or
+ * an (async) generator
+ */
+export type AudioSource = AsyncIterable<AudioInput> | Iterable<AudioInput>;
+
+export const SAMPLE_FORMATS: SampleFormat[] = [
+	"f32le",
+	"s16le",
+	"s24le",
+	"s32le",
+	"u8",
+	"mulaw",
+	"alaw",
+];
+
+const BYTES_PER_SAMPLE: Record<SampleFormat, number> = {
+	f32le: 4,
+	s16le: 2,
+	s24le: 3,
+	s32le: 4,
+	u8: 1,
+	mulaw: 1,
+	alaw: 1,
+};
+
+function decodeMulaw(byte: number): number {
+	const u = ~byte & 0xff;
+	const exponent = (u >> 4) & 0x07;
+	const mantissa = u & 0x0f;
+	const magnitude = (((mantissa << 3) + 0x84) << exponent) - 0x84;
+	return u & 0x80 ? -magnitude : magnitude;
+}
+
+function decodeAlaw(byte: number): number {
+	const a = byte ^ 0x55;
+	const exponent = (a >> 4) & 0x07;
+	const mantissa = a & 0x0f;
+	const magnitude =
+		exponent === 0
+			? (mantissa << 4) + 8
+			: ((mantissa << 4) + 0x108) << (exponent - 1);
+	return a & 0x80 ? magnitude : -magnitude;
+}
+
+const buildTable = (decode: (byte: number) => number): Float32Array => {
+	const table = new Float32Array(256);
+	for (let i = 0; i < 256; i++) {
+		table[i] = decode(i) / 32768;
+	}
+	return table;
+};
+
+const MULAW_TABLE = buildTable(decodeMulaw);
+const ALAW_TABLE = buildTable(decodeAlaw);
+
+/**
+ * Convert 16-bit signed PCM samples to floats in [-1, 1)
+ */
+export function int16ToFloat32(input: Int16Array): Float32Array {
+	const output = new Float32Array(input.length);
+	for (let i = 0; i < input.length; i++) {
+		output[i] = (input[i] as number) / 32768;
+	}
+	return output;
+}
+
+/**
+ * Decodes raw audio bytes into Float32 samples in [-1, 1].
+ *
+ * Chunks do not need to end on a sample boundary: trailing bytes that do not
+ * form a whole sample are kept and prepended to the next chunk.
+ */
+export class PCMDecoder {
+	private remainder: Buffer = Buffer.alloc(0);
+
+	constructor(public readonly format: SampleFormat) {
+		if (!SAMPLE_FORMATS.includes(format)) {
+			throw new Error(`Unsupported sample format "${format}"`);
+		}
+	}
+
+	get bytesPerSample(): number {
+		return BYTES_PER_SAMPLE[this.format];
+	}
+
+	/** Number of bytes held back from the previous chunk */
+	get pendingBytes(): number {
+		return this.remainder.length;
+	}
+
+	decode(chunk: Uint8Array): Float32Array {
+		const bytes = Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+		const data =
+			this.remainder.length > 0
+				? Buffer.concat([this.remainder, bytes])
+				: bytes;
+		const width = this.bytesPerSample;
+		const sampleCount = Math.floor(data.length / width);
+		const samples = new Float32Array(sampleCount);
+
+		switch (this.format) {
+			case "f32le":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = data.readFloatLE(i * 4);
+				}
+				break;
+			case "s16le":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = data.readInt16LE(i * 2) / 32768;
+				}
+				break;
+			case "s24le":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = data.readIntLE(i * 3, 3) / 8388608;
+				}
+				break;
+			case "s32le":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = data.readInt32LE(i * 4) / 2147483648;
+				}
+				break;
+			case "u8":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = ((data[i] as number) - 128) / 128;
+				}
+				break;
+			case "mulaw":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = MULAW_TABLE[data[i] as number] as number;
+				}
+				break;
+			case "alaw":
+				for (let i = 0; i < sampleCount; i++) {
+					samples[i] = ALAW_TABLE[data[i] as number] as number;
+				}
+				break;
+		}
+
+		// copy so the caller's chunk can be reused once we return
+		this.remainder = Buffer.from(data.subarray(sampleCount * width));
+		return samples;
+	}
+
+	/** Convert any AudioInput to Float32 samples; only Buffers are decoded as `format` */
+	toFloat32(input: AudioInput): Float32Array {
+		if (input instanceof Float32Array) return input;
+		if (input instanceof Int16Array) return int16ToFloat32(input);
+		return this.decode(input);
+	}
+
+	/** Drop any incomplete sample held back from the previous chunk */
+	reset(): void {
+		this.remainder = Buffer.alloc(0);
+	}
+
+	/** Bytes held back from the previous chunk, for `restoreState` */
+	getState(): number[] {
+		return Array.from(this.remainder);
+	}
+
+	restoreState(bytes: number[]): void {
+		this.remainder = Buffer.from(bytes);
+	}
+}
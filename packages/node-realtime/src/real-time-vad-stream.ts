@@ -0,0 +1,134 @@
+import { Transform, type TransformCallback } from "node:stream";
+import type { ModelFetcher } from "./common";
+import {
+	RealTimeVAD,
+	type RealTimeVADOptions,
+	type VADEventTiming,
+} from "./real-time-vad";
+
+/**
+ * Objects emitted on the readable side of a RealTimeVADStream
+ */
+export type RealTimeVADStreamEvent =
+	| { type: "speech-start"; timing: VADEventTiming }
+	| { type: "speech-real-start"; timing: VADEventTiming }
+	| { type: "misfire"; timing: VADEventTiming }
+	| {
+			type: "speech-end";
+			audio: Float32Array;
+			timing: VADEventTiming;
+			/** True when the segment was cut at the maximum speech duration */
+			forced: boolean;
+	  };
+
+/**
+ * Buffering options for the writable (PCM) and readable (event) sides
+ */
+export interface RealTimeVADStreamBufferOptions {
+	/** Number of bytes buffered on the writable side before `write()` returns false */
+	writableHighWaterMark?: number;
+	/** Number of events buffered on the readable side before input stops being processed */
+	readableHighWaterMark?: number;
+}
+
+/**
+ * Options for RealTimeVADStream: the RealTimeVAD options plus buffering
+ */
+export type RealTimeVADStreamOptions = Partial<RealTimeVADOptions> &
+	RealTimeVADStreamBufferOptions;
+
+/**
+ * Transform stream wrapping a RealTimeVAD: raw PCM encoded as the VAD's
+ * `inputFormat` goes in, RealTimeVADStreamEvent objects come out.
+ *
+ * Backpressure is propagated from the readable side: while the event buffer
+ * is full, no further audio is fed to the VAD. Ending the writable side
+ * flushes the VAD so a segment in progress is still emitted.
+ */
+export class RealTimeVADStream extends Transform {
+	/** Whether the VAD was created by `new` and is destroyed with the stream */
+	private ownsVad = false;
+
+	/**
+	 * Wrap an existing RealTimeVAD. The stream only feeds and listens to the
+	 * VAD: call `vad.start()` before writing audio. The VAD outlives the
+	 * stream; destroy it once it is no longer needed.
+	 */
+	constructor(
+		private vad: RealTimeVAD,
+		bufferOptions: RealTimeVADStreamBufferOptions = {},
+	) {
+		super({
+			...bufferOptions,
+			writableObjectMode: false,
+			readableObjectMode: true,
+		});
+		vad.on("speechStart", this.onSpeechStart);
+		vad.on("speechRealStart", this.onSpeechRealStart);
+		vad.on("vadMisfire", this.onVADMisfire);
+		vad.on("speechEnd", this.onSpeechEnd);
+	}
+
+	/**
+	 * Create a RealTimeVAD and wrap it in a started RealTimeVADStream
+	 */
+	static async new(
+		ort: any,
+		modelFetcher: ModelFetcher,
+		options: RealTimeVADStreamOptions = {},
+	): Promise<RealTimeVADStream> {
+		const { writableHighWaterMark, readableHighWaterMark, ...opts } = options;
+		const vad = await RealTimeVAD.new(ort, modelFetcher, opts);
+		vad.start();
+		const stream = new RealTimeVADStream(vad, {
+			writableHighWaterMark,
+			readableHighWaterMark,
+		});
+		stream.ownsVad = true;
+		return stream;
+	}
+
+	override _transform(
+		chunk: Buffer,
+		_encoding: BufferEncoding,
+		callback: TransformCallback,
+	): void {
+		this.vad.processAudio(chunk).then(() => callback(), callback);
+	}
+
+	override _flush(callback: TransformCallback): void {
+		this.vad.flush().then(() => callback(), callback);
+	}
+
+	override _destroy(
+		error: Error | null,
+		callback: (error?: Error | null) => void,
+	): void {
+		this.vad.off("speechStart", this.onSpeechStart);
+		this.vad.off("speechRealStart", this.onSpeechRealStart);
+		this.vad.off("vadMisfire", this.onVADMisfire);
+		this.vad.off("speechEnd", this.onSpeechEnd);
+		if (this.ownsVad) this.vad.destroy();
+		callback(error);
+	}
+
+	private onSpeechStart = (timing: VADEventTiming) => {
+		this.push({ type: "speech-start", timing });
+	};
+
+	private onSpeechRealStart = (timing: VADEventTiming) => {
+		this.push({ type: "speech-real-start", timing });
+	};
+
+	private onVADMisfire = (timing: VADEventTiming) => {
+		this.push({ type: "misfire", timing });
+	};
+
+	private onSpeechEnd = (
+		audio: Float32Array,
+		timing: VADEventTiming,
+		forced: boolean,
+	) => {
+		this.push({ type: "speech-end", audio, timing, forced });
+	};
+}
@@ -1,36 +1,311 @@
-import type { OrtOptions } from "./common";
+import { isDeepStrictEqual } from "node:util";
+import {
+	ChannelMixer,
+	type ChannelStrategy,
+	getChannelStrategyError,
+} from "./channel-mixer";
+import {
+	OptionsUpdateError,
+	type OrtOptions,
+	VADConfigError,
+	type VADConfigViolation,
+	log,
+} from "./common";
+import { TypedEventEmitter } from "./common/event-emitter";
 import {
 	FrameProcessor,
 	type FrameProcessorEvent,
 	type FrameProcessorOptions,
-	defaultLegacyFrameProcessorOptions,
-	defaultV5FrameProcessorOptions,
+	type FrameProcessorState,
+	type SegmentFrames,
+	getOptionViolations,
+	markDefaultDurations,
+	mergeOptions,
 	validateOptions,
+	withOptionFallbacks,
 } from "./common/frame-processor";
 import { Message } from "./common/messages";
 import {
-	type ModelFactory,
-	SileroLegacy,
-	SileroV5,
+	type Model,
+	OnnxVADModel,
 	type SpeechProbabilities,
 } from "./common/models";
-import { Resampler } from "./common/resampler";
+import type { SpeechThresholds } from "./common/noise-floor";
+import {
+	OVERFLOW_POLICIES,
+	type OverflowPolicy,
+	ProcessingQueue,
+	type QueueOverflow,
+} from "./common/processing-queue";
+import {
+	RESAMPLER_QUALITIES,
+	Resampler,
+	type ResamplerQuality,
+	type ResamplerState,
+} from "./common/resampler";
+import { RingBuffer } from "./common/ring-buffer";
+import { type ModelSourceOptions, resolveModelSource } from "./model-fetcher";
+import { getModelDescriptor, getRegisteredModels } from "./model-registry";
+import {
+	type AudioInput,
+	type AudioSource,
+	PCMDecoder,
+	SAMPLE_FORMATS,
+	type SampleFormat,
+} from "./pcm-decoder";
+import type { VADSessionPool } from "./session-pool";
 
-export type ModelVersion = "v5" | "legacy";
+/** Name of a model in the model registry: "v5", "legacy" or a model added with `registerModel` */
+export type ModelVersion = "v5" | "legacy" | (string & Record<never, never>);
 export const DEFAULT_MODEL: ModelVersion = "v5";
 
+/** Frame processor options that `updateOptions` can change while running */
+const LIVE_FRAME_PROCESSOR_OPTIONS: (keyof FrameProcessorOptions)[] = [
+	"positiveSpeechThreshold",
+	"negativeSpeechThreshold",
+	"redemptionFrames",
+	"redemptionMs",
+	"preSpeechPadFrames",
+	"preSpeechPadMs",
+	"minSpeechFrames",
+	"minSpeechMs",
+	"postSpeechPadFrames",
+	"postSpeechPadMs",
+	"submitUserSpeechOnPause",
+	"maxSpeechFrames",
+	"maxSpeechMs",
+	"speechChunkMs",
+	"smoothing",
+	"energyGateDb",
+	"energyGateMs",
+	"adaptiveThresholds",
+	"minPositiveSpeechThreshold",
+	"maxPositiveSpeechThreshold",
+	"calibrationMs",
+];
+
+/**
+ * Options that `updateOptions` can change while running; the others shape
+ * the audio path or the model
+ */
+export const LIVE_OPTIONS: (keyof RealTimeVADOptions)[] = [
+	...LIVE_FRAME_PROCESSOR_OPTIONS,
+	"onFrameProcessed",
+	"onVADMisfire",
+	"onSpeechStart",
+	"onSpeechRealStart",
+	"onSpeechEnd",
+	"onSpeechChunk",
+	"onSpeechCancel",
+	"onOverflow",
+	"onThresholdsChanged",
+	"onOptionsChanged",
+];
+
+/**
+ * Names of the options in `changes` that differ from `current` but are not
+ * live; object values such as `channelStrategy` are compared structurally
+ */
+export function getFixedOptionChanges<T extends object>(
+	current: T,
+	changes: Partial<T>,
+): string[] {
+	return (Object.keys(changes) as (keyof T & string)[]).filter(
+		(key) =>
+			!(LIVE_OPTIONS as string[]).includes(key) &&
+			!isDeepStrictEqual(changes[key], current[key]),
+	);
+}
+
+/**
+ * Throw a VADConfigError listing the invalid options of `updated` that
+ * `current` did not have, whatever `strict`: a running instance must not
+ * pick up invalid values. Violations already present are only logged.
+ */
+export function rejectIntroducedViolations<T extends FrameProcessorOptions>(
+	current: T,
+	updated: T,
+): void {
+	const known = new Set(
+		getOptionViolations(withOptionFallbacks(current)).map((v) => v.message),
+	);
+	const introduced = getOptionViolations(withOptionFallbacks(updated)).filter(
+		(v) => !known.has(v.message),
+	);
+	if (introduced.length > 0) {
+		throw new VADConfigError(introduced);
+	}
+}
+
+/**
+ * A position in the audio fed to the VAD since `start()`
+ */
+export interface VADTimestamp {
+	/** Sample offset at `modelSampleRate` */
+	modelSample: number;
+	/** Sample offset at the input `sampleRate` */
+	inputSample: number;
+	/** Milliseconds */
+	ms: number;
+}
+
+/**
+ * Timing attached to every event. `start`/`end` delimit the frames detected
+ * as speech; `paddedStart`/`paddedEnd` delimit the audio of the segment,
+ * including the pre-speech padding and redemption frames. For
+ * `frameProcessed`, all four delimit the processed frame.
+ */
+export interface VADEventTiming {
+	start: VADTimestamp;
+	end: VADTimestamp;
+	paddedStart: VADTimestamp;
+	paddedEnd: VADTimestamp;
+}
+
+/**
+ * Speech segment yielded by `RealTimeVAD.segments`
+ */
+export interface SpeechSegment {
+	audio: Float32Array;
+	timing: VADEventTiming;
+	/** True when the segment was cut at `maxSpeechFrames`/`maxSpeechMs` */
+	forced: boolean;
+}
+
+/**
+ * Frame counts of a RealTimeVAD since it was created
+ */
+export interface VADStats {
+	/** Frames processed */
+	frames: number;
+	/** Frames that did not go through the model because of `energyGateDb` */
+	skippedFrames: number;
+	/** `skippedFrames / frames`, 0 before the first frame */
+	skippedFraction: number;
+}
+
+export const getVADStats = (
+	frames: number,
+	skippedFrames: number,
+): VADStats => ({
+	frames,
+	skippedFrames,
+	skippedFraction: frames > 0 ? skippedFrames / frames : 0,
+});
+
+/** Version of the RealTimeVADState layout, bumped when it changes */
+export const VAD_STATE_VERSION = 1;
+
+/** Options a RealTimeVADState can only be restored with if they are equal */
+const STATE_CONFIG_OPTIONS = [
+	"model",
+	"frameSamples",
+	"modelSampleRate",
+	"sampleRate",
+	"channels",
+	"inputFormat",
+	"resamplerQuality",
+] as const;
+
+/**
+ * Snapshot of a RealTimeVAD returned by `getState`: plain data that can be
+ * serialized with JSON, or with a structured clone
+ */
+export interface RealTimeVADState {
+	version: typeof VAD_STATE_VERSION;
+	/** Options the instance restoring the state must have been created with */
+	config: Pick<RealTimeVADOptions, (typeof STATE_CONFIG_OPTIONS)[number]>;
+	active: boolean;
+	startFrame: number;
+	/** Bytes of an incomplete sample held by the decoder */
+	decoder: number[];
+	/** Samples of an incomplete frame held by the channel mixer */
+	mixer: number[];
+	resampler: ResamplerState | null;
+	/** Audio at the model sample rate not yet processed as a frame */
+	buffer: number[];
+	frameProcessor: FrameProcessorState;
+	model: {
+		/** Recurrent state tensors, by the name of their model input */
+		tensors: Record<string, number[]>;
+		context: number[];
+	};
+}
+
+/**
+ * Passed to `onOverflow` when audio arrives while the processing queue is full
+ */
+export type VADOverflow = QueueOverflow<AudioInput>;
+
 /**
  * Callbacks for real-time VAD events
  */
 export interface RealTimeVADCallbacks {
+	/**
+	 * Callback with the probabilities returned by the model, those compared
+	 * with the thresholds after `smoothing`, and whether the model was
+	 * skipped because of `energyGateDb`
+	 */
 	onFrameProcessed: (
 		probabilities: SpeechProbabilities,
 		frame: Float32Array,
+		timing: VADEventTiming,
+		smoothedProbabilities: SpeechProbabilities,
+		skipped: boolean,
+	) => void;
+	onVADMisfire: (timing: VADEventTiming) => void;
+	onSpeechStart: (timing: VADEventTiming) => void;
+	onSpeechRealStart: (timing: VADEventTiming) => void;
+	onSpeechEnd: (
+		audio: Float32Array,
+		timing: VADEventTiming,
+		forced: boolean,
+		segmentId: number,
+	) => void;
+	/** Audio of a confirmed segment, emitted while the user is still talking; see `streamSpeech` */
+	onSpeechChunk: (
+		audio: Float32Array,
+		segmentId: number,
+		timing: VADEventTiming,
+	) => void;
+	/** The segment with this id will not end with `onSpeechEnd`: drop the chunks received for it */
+	onSpeechCancel: (segmentId: number, timing: VADEventTiming) => void;
+	onOverflow: (overflow: VADOverflow) => void;
+	/** Thresholds in effect from the frame at `timing`, when they change; see `adaptiveThresholds` */
+	onThresholdsChanged: (
+		thresholds: SpeechThresholds,
+		timing: VADEventTiming,
 	) => void;
-	onVADMisfire: () => void;
-	onSpeechStart: () => void;
-	onSpeechRealStart: () => void;
-	onSpeechEnd: (audio: Float32Array) => void;
+	/** Options changed by `updateOptions`, once they apply */
+	onOptionsChanged: (changes: Partial<RealTimeVADOptions>) => void;
+}
+
+/**
+ * Events emitted by RealTimeVAD, mirroring the frame processor messages.
+ * Listener arguments match the corresponding `RealTimeVADCallbacks`.
+ */
+export interface RealTimeVADEvents {
+	frameProcessed: [
+		probabilities: SpeechProbabilities,
+		frame: Float32Array,
+		timing: VADEventTiming,
+		smoothedProbabilities: SpeechProbabilities,
+		skipped: boolean,
+	];
+	vadMisfire: [timing: VADEventTiming];
+	speechStart: [timing: VADEventTiming];
+	speechRealStart: [timing: VADEventTiming];
+	speechEnd: [
+		audio: Float32Array,
+		timing: VADEventTiming,
+		forced: boolean,
+		segmentId: number,
+	];
+	speechChunk: [audio: Float32Array, segmentId: number, timing: VADEventTiming];
+	speechCancel: [segmentId: number, timing: VADEventTiming];
+	overflow: [overflow: VADOverflow];
+	thresholdsChanged: [thresholds: SpeechThresholds, timing: VADEventTiming];
+	optionsChanged: [changes: Partial<RealTimeVADOptions>];
 }
 
 /**
@@ -39,26 +314,54 @@ export interface RealTimeVADCallbacks {
 export interface RealTimeVADOptions
 	extends FrameProcessorOptions,
 		RealTimeVADCallbacks,
-		OrtOptions {
-	/** Sample rate of the incoming audio; will be resampled to 16000Hz internally */
+		OrtOptions,
+		ModelSourceOptions {
+	/** Sample rate of the incoming audio; will be resampled to `modelSampleRate` internally */
 	sampleRate: number;
-	/** Which Silero model to use: V5 or legacy */
+	/** Algorithm used to resample the incoming audio (default: fast) */
+	resamplerQuality: ResamplerQuality;
+	/** Number of interleaved channels in the incoming audio */
+	channels: number;
+	/** How multi-channel audio is reduced to mono before resampling */
+	channelStrategy: ChannelStrategy;
+	/** Which registered model to use (default: v5) */
 	model?: ModelVersion;
+	/** Encoding of audio passed to `processAudio` as a Buffer (default: f32le) */
+	inputFormat: SampleFormat;
+	/** Share the loaded model with other instances instead of creating a session per instance */
+	sessionPool?: VADSessionPool;
+	/** Maximum number of `processAudio` chunks waiting while another one is processed */
+	maxQueueLength: number;
+	/** What happens to chunks passed to `processAudio` while the queue is full */
+	overflowPolicy: OverflowPolicy;
+	/** Throw a VADConfigError listing every invalid option instead of logging them (default: false) */
+	strict: boolean;
 }
 
 /**
- * Build default options based on chosen model
+ * Build default options based on chosen model, taking the frame processor
+ * options from its descriptor. At a `modelSampleRate` other than 16000Hz,
+ * frames are scaled to keep their duration.
  */
 export function getDefaultRealTimeVADOptions(
 	model: ModelVersion = DEFAULT_MODEL,
+	modelSampleRate = 16000,
 ): RealTimeVADOptions {
-	const frameOpts =
-		model === "v5"
-			? defaultV5FrameProcessorOptions
-			: defaultLegacyFrameProcessorOptions;
-	return {
+	const frameOpts = getModelDescriptor(model).frameProcessorOptions;
+	return markDefaultDurations({
 		...frameOpts,
+		frameSamples: Math.round(
+			(frameOpts.frameSamples * modelSampleRate) / frameOpts.modelSampleRate,
+		),
+		modelSampleRate,
 		sampleRate: 16000,
+		resamplerQuality: "fast",
+		channels: 1,
+		channelStrategy: "downmix",
+		inputFormat: "f32le",
+		maxQueueLength: Number.POSITIVE_INFINITY,
+		overflowPolicy: "block",
+		strict: false,
 		onFrameProcessed: () => {},
 		onVADMisfire: () => {
 			/* no-op */
@@ -72,21 +375,132 @@ export function getDefaultRealTimeVADOptions(
 		onSpeechEnd: () => {
 			/* no-op */
 		},
+		onSpeechChunk: () => {
+			/* no-op */
+		},
+		onSpeechCancel: () => {
+			/* no-op */
+		},
+		onOverflow: () => {
+			/* no-op */
+		},
+		onThresholdsChanged: () => {
+			/* no-op */
+		},
+		onOptionsChanged: () => {
+			/* no-op */
+		},
 		ortConfig: undefined,
 		model,
-	} as RealTimeVADOptions;
+	} as RealTimeVADOptions);
 }
 
 /**
- * RealTimeVAD processes raw audio buffers, frames, and emits events
+ * Complete `opts` with the defaults of its model and validate the result,
+ * including the Node-specific `sampleRate` and `model`; see `validateOptions`
  */
-export class RealTimeVAD {
+export function validateRealTimeVADOptions<
+	T extends Partial<RealTimeVADOptions>,
+>(opts: T): Readonly<RealTimeVADOptions & T> {
+	const violations: VADConfigViolation[] = [];
+	const models = getRegisteredModels();
+	const model = opts.model ?? DEFAULT_MODEL;
+	const known = models.includes(model);
+	if (!known) {
+		violations.push({
+			field: "model",
+			message: `model should be one of ${models.join(", ")}, got "${model}"`,
+		});
+	}
+	// an unknown model falls back to the defaults of the default model, so
+	// that the other options are still checked
+	const options = mergeOptions(
+		getDefaultRealTimeVADOptions(
+			known ? model : DEFAULT_MODEL,
+			opts.modelSampleRate,
+		),
+		opts,
+	) as RealTimeVADOptions & T;
+	const check = (
+		valid: boolean,
+		field: keyof RealTimeVADOptions,
+		rule: string,
+	) => {
+		if (!valid) {
+			violations.push({
+				field,
+				message: `${field} ${rule}, got ${String(options[field])}`,
+			});
+		}
+	};
+	const { sampleRate, channels, maxQueueLength } = options;
+	check(
+		typeof sampleRate === "number" &&
+			sampleRate > 0 &&
+			Number.isFinite(sampleRate),
+		"sampleRate",
+		"should be a positive number",
+	);
+	check(
+		Number.isInteger(channels) && channels >= 1,
+		"channels",
+		"should be a positive integer",
+	);
+	const strategyError = getChannelStrategyError(
+		channels,
+		options.channelStrategy,
+	);
+	if (strategyError !== null) {
+		violations.push({ field: "channelStrategy", message: strategyError });
+	}
+	check(
+		SAMPLE_FORMATS.includes(options.inputFormat),
+		"inputFormat",
+		`should be one of ${SAMPLE_FORMATS.join(", ")}`,
+	);
+	check(
+		RESAMPLER_QUALITIES.includes(options.resamplerQuality),
+		"resamplerQuality",
+		`should be one of ${RESAMPLER_QUALITIES.join(", ")}`,
+	);
+	check(
+		maxQueueLength === Number.POSITIVE_INFINITY ||
+			(Number.isInteger(maxQueueLength) && maxQueueLength >= 0),
+		"maxQueueLength",
+		"should be a non-negative integer or Infinity",
+	);
+	check(
+		OVERFLOW_POLICIES.includes(options.overflowPolicy),
+		"overflowPolicy",
+		`should be one of ${OVERFLOW_POLICIES.join(", ")}`,
+	);
+	return validateOptions(options, { strict: options.strict, violations });
+}
+
+/**
+ * RealTimeVAD processes raw audio buffers, frames, and emits events.
+ * Listeners can be added with `on`/`once` and removed with `off`; the
+ * callbacks given in the options are invoked before the listeners.
+ */
+export class RealTimeVAD extends TypedEventEmitter<RealTimeVADEvents> {
 	private frameProcessor: FrameProcessor;
 	private modelInstance: any;
-	private buffer = new Float32Array(0);
+	/** Audio at the model sample rate not yet processed as a frame */
+	private buffer: RingBuffer;
+	/**
+	 * Frames are cut from slabs of several frames, since the frame processor
+	 * keeps them until their segment ends; a full slab is replaced, not reused
+	 */
+	private slab: Float32Array;
+	private slabOffset = 0;
 	private frameSize: number;
 	private active = false;
 	private resampler: Resampler | null = null;
+	private decoder: PCMDecoder;
+	/** Index of the first frame processed since `start()` */
+	private startFrame = 0;
+	private mixer: ChannelMixer | null = null;
+	private queue: ProcessingQueue<AudioInput>;
 
 	/**
 	 * Construct a new instance with provided options and loaded model
@@ -95,141 +509,528 @@ export class RealTimeVAD {
 		private options: RealTimeVADOptions,
 		modelInstance: any,
 	) {
+		super();
 		this.modelInstance = modelInstance;
 		this.frameSize = options.frameSamples;
+		this.buffer = new RingBuffer(2 * this.frameSize);
+		this.slab = new Float32Array(32 * this.frameSize);
+		this.decoder = new PCMDecoder(options.inputFormat);
+		if (options.channels !== 1) {
+			this.mixer = new ChannelMixer(options.channels, options.channelStrategy);
+		}
 
 		this.frameProcessor = new FrameProcessor(
 			modelInstance.process,
 			modelInstance.reset_state,
 			{
 				frameSamples: options.frameSamples,
+				modelSampleRate: options.modelSampleRate,
 				positiveSpeechThreshold: options.positiveSpeechThreshold,
 				negativeSpeechThreshold: options.negativeSpeechThreshold,
 				redemptionFrames: options.redemptionFrames,
+				redemptionMs: options.redemptionMs,
 				preSpeechPadFrames: options.preSpeechPadFrames,
+				preSpeechPadMs: options.preSpeechPadMs,
 				minSpeechFrames: options.minSpeechFrames,
+				minSpeechMs: options.minSpeechMs,
+				postSpeechPadFrames: options.postSpeechPadFrames,
+				postSpeechPadMs: options.postSpeechPadMs,
 				submitUserSpeechOnPause: options.submitUserSpeechOnPause,
+				maxSpeechFrames: options.maxSpeechFrames,
+				maxSpeechMs: options.maxSpeechMs,
+				streamSpeech: options.streamSpeech,
+				speechChunkMs: options.speechChunkMs,
+				adaptiveThresholds: options.adaptiveThresholds,
+				minPositiveSpeechThreshold: options.minPositiveSpeechThreshold,
+				maxPositiveSpeechThreshold: options.maxPositiveSpeechThreshold,
+				calibrationMs: options.calibrationMs,
+				smoothing: options.smoothing,
+				energyGateDb: options.energyGateDb,
+				energyGateMs: options.energyGateMs,
 			},
 		);
 
-		if (options.sampleRate !== 16000) {
+		if (!RESAMPLER_QUALITIES.includes(options.resamplerQuality)) {
+			throw new Error(
+				`Unknown resampler quality "${options.resamplerQuality}"`,
+			);
+		}
+		if (options.sampleRate !== options.modelSampleRate) {
 			this.resampler = new Resampler({
 				nativeSampleRate: options.sampleRate,
-				targetSampleRate: 16000,
+				targetSampleRate: options.modelSampleRate,
 				targetFrameSize: this.frameSize,
+				quality: options.resamplerQuality,
 			});
 		}
+
+		if (!OVERFLOW_POLICIES.includes(options.overflowPolicy)) {
+			throw new Error(`Unknown overflow policy "${options.overflowPolicy}"`);
+		}
+		if (
+			options.maxQueueLength < 0 ||
+			(!Number.isInteger(options.maxQueueLength) &&
+				options.maxQueueLength !== Number.POSITIVE_INFINITY)
+		) {
+			throw new Error(
+				`maxQueueLength must be a non-negative integer, got ${options.maxQueueLength}`,
+			);
+		}
+		this.queue = new ProcessingQueue(
+			this.processChunk,
+			{
+				maxQueueLength: options.maxQueueLength,
+				overflowPolicy: options.overflowPolicy,
+			},
+			this.handleOverflow,
+		);
 	}
 
 	/**
-	 * Create and initialize a RealTimeVAD instance
+	 * Create and initialize a RealTimeVAD instance. The model is loaded with
+	 * `modelFetcher` unless one of `modelPath`, `modelBuffer` or
+	 * `modelFetcher` is set in `opts`.
 	 */
 	static async new(
 		ort: any,
 		modelFetcher: () => Promise<ArrayBuffer>,
 		opts: Partial<RealTimeVADOptions> = {},
 	): Promise<RealTimeVAD> {
-		const fullOpts: RealTimeVADOptions = {
-			...getDefaultRealTimeVADOptions(opts.model),
-			...opts,
-		};
-		validateOptions(fullOpts);
+		const fullOpts = validateRealTimeVADOptions(opts);
 
 		if (fullOpts.ortConfig) fullOpts.ortConfig(ort);
 
 		const modelVersion: ModelVersion = fullOpts.model || DEFAULT_MODEL;
-		const factory: ModelFactory =
-			modelVersion === "v5" ? SileroV5.new : SileroLegacy.new;
-		const modelInstance = await factory(ort, modelFetcher);
+		const descriptor = getModelDescriptor(modelVersion);
+		const { modelSampleRate } = fullOpts;
+		const frameSizes = descriptor.sampleRates[modelSampleRate];
+		if (!frameSizes) {
+			throw new Error(
+				`VAD model "${modelVersion}" does not support ${modelSampleRate}Hz audio; supported: ${Object.keys(descriptor.sampleRates).join(", ")}`,
+			);
+		}
+		if (!frameSizes.includes(fullOpts.frameSamples)) {
+			log.warn(
+				`VAD model "${modelVersion}" expects frames of ${frameSizes.join(", ")} samples, got ${fullOpts.frameSamples}`,
+			);
+		}
+		const source = resolveModelSource(modelVersion, fullOpts, modelFetcher);
+		const modelInstance = fullOpts.sessionPool
+			? await fullOpts.sessionPool.acquire(
+					modelVersion,
+					source.fetcher,
+					source.key,
+					modelSampleRate,
+				)
+			: await OnnxVADModel.new(
+					ort,
+					source.fetcher,
+					descriptor,
+					modelSampleRate,
+				);
 
-		return new RealTimeVAD(fullOpts, modelInstance);
+		try {
+			return new RealTimeVAD(fullOpts, modelInstance);
+		} catch (e) {
+			fullOpts.sessionPool?.release(modelInstance);
+			throw e;
+		}
 	}
 
-	/** Start processing incoming frames */
+	/**
+	 * Start processing incoming frames, after the chunks and the `pause()`
+	 * already waiting to be processed
+	 */
 	start(): void {
 		this.active = true;
+		if (this.queue.busy) {
+			this.queue.run(async () => this.resume());
+		} else {
+			this.resume();
+		}
+	}
+
+	private resume(): void {
+		this.startFrame = this.frameProcessor.frameCount;
 		this.frameProcessor.resume();
 	}
 
-	/** Pause processing; may emit end-segment on pause */
-	pause(): void {
+	/**
+	 * Pause processing once the chunks already passed to `processAudio` are
+	 * processed; may emit end-segment on pause. Further chunks are ignored.
+	 */
+	pause(): Promise<void> {
 		this.active = false;
-		this.frameProcessor.pause(this.handleEvent);
+		return this.queue.run(async () => {
+			this.frameProcessor.pause(this.handleEvent);
+		});
 	}
 
-	/** Feed raw audio (any sample rate) into the VAD */
-	async processAudio(audioData: Float32Array): Promise<void> {
+	/**
+	 * Feed raw audio (any sample rate) into the VAD. Multi-channel audio is
+	 * interleaved. Buffers may end in the middle of a sample or frame; the
+	 * leftover is joined with the next call.
+	 *
+	 * Chunks are processed one at a time in call order, so the returned
+	 * promise does not need to be awaited before passing the next chunk.
+	 * Chunks that arrive while `maxQueueLength` chunks are waiting are
+	 * handled according to `overflowPolicy`.
+	 */
+	async processAudio(audioData: AudioInput): Promise<void> {
 		if (!this.active) return;
+		await this.queue.push(audioData);
+	}
 
-		let data = audioData;
+	/** Number of chunks passed to `processAudio` that are waiting to be processed */
+	get queueLength(): number {
+		return this.queue.length;
+	}
+
+	private processChunk = async (audioData: AudioInput): Promise<void> => {
+		let data = this.decoder.toFloat32(audioData);
+		if (this.mixer) {
+			data = this.mixer.mix(data);
+		}
 		if (this.resampler) {
-			const chunks: Float32Array[] = [];
-			for await (const frame of this.resampler.stream(audioData)) {
-				chunks.push(frame);
-			}
-			data = new Float32Array(chunks.reduce((sum, c) => sum + c.length, 0));
-			let off = 0;
-			for (const c of chunks) {
-				data.set(c, off);
-				off += c.length;
-			}
+			this.resampler.resample(data, this.buffer);
+		} else {
+			this.buffer.write(data);
 		}
 
-		// append to internal buffer
-		const tmp = new Float32Array(this.buffer.length + data.length);
-		tmp.set(this.buffer);
-		tmp.set(data, this.buffer.length);
-		this.buffer = tmp;
-
 		// process complete frames
 		while (this.buffer.length >= this.frameSize) {
-			const frame = this.buffer.subarray(0, this.frameSize);
-			this.buffer = this.buffer.subarray(this.frameSize);
+			if (this.slabOffset === this.slab.length) {
+				this.slab = new Float32Array(this.slab.length);
+				this.slabOffset = 0;
+			}
+			const frame = this.slab.subarray(
+				this.slabOffset,
+				this.slabOffset + this.frameSize,
+			);
+			this.slabOffset += this.frameSize;
+			this.buffer.read(frame);
 			await this.frameProcessor.process(frame, this.handleEvent);
 		}
-	}
+	};
 
-	/** Flush any remaining audio and end segment */
+	/** Flush any remaining audio and end segment, after the queued chunks */
 	async flush(): Promise<void> {
+		await this.queue.run(this.flushBuffer);
+	}
+
+	private flushBuffer = async (): Promise<void> => {
 		if (this.buffer.length > 0 && this.buffer.length < this.frameSize) {
 			const pad = new Float32Array(this.frameSize);
-			pad.set(this.buffer);
+			this.buffer.read(pad.subarray(0, this.buffer.length));
 			await this.frameProcessor.process(pad, this.handleEvent);
 		}
 		this.frameProcessor.endSegment(this.handleEvent);
-		this.buffer = new Float32Array(0);
+		this.buffer.clear();
+		this.decoder.reset();
+		this.mixer?.reset();
+	};
+
+	/** Frames processed so far and how many of them skipped the model */
+	get stats(): VADStats {
+		return getVADStats(
+			this.frameProcessor.frameCount,
+			this.frameProcessor.skippedFrames,
+		);
+	}
+
+	/**
+	 * Snapshot of the stream, taken after the chunks already passed to
+	 * `processAudio`, from which `restoreState` resumes with the same events,
+	 * e.g. in another process. The options are not part of it.
+	 */
+	async getState(): Promise<RealTimeVADState> {
+		const { getState } = this.modelInstance as Model;
+		if (!getState) {
+			throw new Error("The VAD model does not support getState");
+		}
+		let state: RealTimeVADState | undefined;
+		await this.queue.run(async () => {
+			const { tensors, context } = getState();
+			state = {
+				version: VAD_STATE_VERSION,
+				config: this.getStateConfig(),
+				active: this.active,
+				startFrame: this.startFrame,
+				decoder: this.decoder.getState(),
+				mixer: this.mixer?.getState() ?? [],
+				resampler: this.resampler?.getState() ?? null,
+				buffer: Array.from(this.buffer.toArray()),
+				frameProcessor: this.frameProcessor.getState(),
+				model: {
+					tensors: Object.fromEntries(
+						this.getModelDescriptor().state.map(({ input }, i) => [
+							input,
+							tensors[i] as number[],
+						]),
+					),
+					context,
+				},
+			};
+		});
+		if (!state) {
+			throw new Error("VAD was destroyed before its state was taken");
+		}
+		return state;
+	}
+
+	/**
+	 * Resume the stream saved by `getState`, after the chunks already passed
+	 * to `processAudio`. The instance must have been created with the options
+	 * in `state.config`; it is started or paused as the saved one was, so
+	 * `start()` need not be called.
+	 */
+	async restoreState(state: RealTimeVADState): Promise<void> {
+		if (state?.version !== VAD_STATE_VERSION) {
+			throw new Error(
+				`Unsupported VAD state version ${state?.version}, expected ${VAD_STATE_VERSION}`,
+			);
+		}
+		const config = this.getStateConfig();
+		const mismatched = STATE_CONFIG_OPTIONS.filter(
+			(key) => state.config[key] !== config[key],
+		);
+		if (mismatched.length > 0) {
+			throw new Error(
+				`VAD state was saved with different options: ${mismatched
+					.map((key) => `${key} ${state.config[key]}`)
+					.join(", ")}`,
+			);
+		}
+		const { restoreState } = this.modelInstance as Model;
+		if (!restoreState) {
+			throw new Error("The VAD model does not support restoreState");
+		}
+		await this.queue.run(async () => {
+			this.active = state.active;
+			this.startFrame = state.startFrame;
+			this.decoder.restoreState(state.decoder);
+			this.mixer?.restoreState(state.mixer);
+			if (this.resampler && state.resampler) {
+				this.resampler.restoreState(state.resampler);
+			}
+			this.buffer.clear();
+			this.buffer.write(new Float32Array(state.buffer));
+			this.frameProcessor.restoreState(state.frameProcessor);
+			restoreState({
+				tensors: this.getModelDescriptor().state.map(
+					({ input }) => state.model.tensors[input] as number[],
+				),
+				context: state.model.context,
+			});
+		});
+	}
+
+	/** The options a state of this instance can only be restored with */
+	private getStateConfig(): RealTimeVADState["config"] {
+		const config = {} as RealTimeVADState["config"];
+		for (const key of STATE_CONFIG_OPTIONS) {
+			Object.assign(config, { [key]: this.options[key] });
+		}
+		config.model = this.options.model ?? DEFAULT_MODEL;
+		return config;
 	}
 
-	/** Reset internal state */
-	reset(): void {
-		this.buffer = new Float32Array(0);
+	/** Reset internal state, after the chunks already passed to `processAudio` */
+	reset(): Promise<void> {
+		return this.queue.run(async () => this.resetState());
+	}
+
+	private resetState(): void {
+		this.buffer.clear();
+		this.decoder.reset();
+		this.mixer?.reset();
 		this.modelInstance.reset_state();
 	}
 
+	/**
+	 * Run the VAD over a source of audio chunks, yielding each speech segment
+	 * as soon as it ends. The VAD is started if needed and flushed once the
+	 * source is exhausted.
+	 */
+	async *segments(source: AudioSource): AsyncGenerator<SpeechSegment> {
+		const pending: SpeechSegment[] = [];
+		const onSpeechEnd = (
+			audio: Float32Array,
+			timing: VADEventTiming,
+			forced: boolean,
+		) => {
+			pending.push({ audio, timing, forced });
+		};
+		this.on("speechEnd", onSpeechEnd);
+		try {
+			if (!this.active) this.start();
+			for await (const chunk of source) {
+				await this.processAudio(chunk);
+				while (pending.length > 0) {
+					yield pending.shift() as SpeechSegment;
+				}
+			}
+			await this.flush();
+			while (pending.length > 0) {
+				yield pending.shift() as SpeechSegment;
+			}
+		} finally {
+			this.off("speechEnd", onSpeechEnd);
+		}
+	}
+
+	/**
+	 * Change options of a running instance, e.g. to raise the thresholds
+	 * while the application itself is speaking. The changes apply at the
+	 * frame boundary following the chunks already passed to `processAudio`,
+	 * keeping the model state and the current segment, and are then reported
+	 * by `optionsChanged`. Changing options outside `LIVE_OPTIONS` rejects
+	 * with an OptionsUpdateError.
+	 */
+	async updateOptions(changes: Partial<RealTimeVADOptions>): Promise<void> {
+		const fixed = getFixedOptionChanges(this.options, changes);
+		if (fixed.length > 0) {
+			throw new OptionsUpdateError(fixed);
+		}
+		const updated = mergeOptions(this.options, changes);
+		rejectIntroducedViolations(this.options, updated);
+		const options = validateRealTimeVADOptions(updated);
+
+		await this.queue.run(async () => {
+			this.options = options;
+			const frameChanges: Partial<FrameProcessorOptions> = {};
+			for (const key of LIVE_FRAME_PROCESSOR_OPTIONS) {
+				if (key in changes) {
+					Object.assign(frameChanges, { [key]: changes[key] });
+				}
+			}
+			this.frameProcessor.options = mergeOptions(
+				this.frameProcessor.options,
+				frameChanges,
+			);
+			this.options.onOptionsChanged(changes);
+			this.emit("optionsChanged", changes);
+		});
+	}
+
+	private handleOverflow = (overflow: VADOverflow): void => {
+		this.options.onOverflow(overflow);
+		this.emit("overflow", overflow);
+	};
+
 	/** Handle events emitted by the frame processor */
 	private handleEvent = (ev: FrameProcessorEvent): void => {
 		switch (ev.msg) {
-			case Message.FrameProcessed:
-				this.options.onFrameProcessed(ev.probs!, ev.frame!);
+			case Message.FrameProcessed: {
+				const timing = this.getFrameTiming(ev.index);
+				this.options.onFrameProcessed(
+					ev.probs,
+					ev.frame,
+					timing,
+					ev.smoothedProbs,
+					ev.skipped,
+				);
+				this.emit(
+					"frameProcessed",
+					ev.probs,
+					ev.frame,
+					timing,
+					ev.smoothedProbs,
+					ev.skipped,
+				);
 				break;
-			case Message.SpeechStart:
-				this.options.onSpeechStart();
+			}
+			case Message.SpeechStart: {
+				const timing = this.getTiming(ev.segment);
+				this.options.onSpeechStart(timing);
+				this.emit("speechStart", timing);
 				break;
-			case Message.SpeechRealStart:
-				this.options.onSpeechRealStart();
+			}
+			case Message.SpeechRealStart: {
+				const timing = this.getTiming(ev.segment);
+				this.options.onSpeechRealStart(timing);
+				this.emit("speechRealStart", timing);
 				break;
-			case Message.VADMisfire:
-				this.options.onVADMisfire();
+			}
+			case Message.VADMisfire: {
+				const timing = this.getTiming(ev.segment);
+				this.options.onVADMisfire(timing);
+				this.emit("vadMisfire", timing);
 				break;
-			case Message.SpeechEnd:
-				this.options.onSpeechEnd(ev.audio!);
+			}
+			case Message.SpeechEnd: {
+				const timing = this.getTiming(ev.segment);
+				this.options.onSpeechEnd(ev.audio, timing, ev.forced, ev.segmentId);
+				this.emit("speechEnd", ev.audio, timing, ev.forced, ev.segmentId);
+				break;
+			}
+			case Message.SpeechChunk: {
+				const timing = this.getTiming(ev.segment);
+				this.options.onSpeechChunk(ev.audio, ev.segmentId, timing);
+				this.emit("speechChunk", ev.audio, ev.segmentId, timing);
 				break;
+			}
+			case Message.SpeechCancel: {
+				const timing = this.getTiming(ev.segment);
+				this.options.onSpeechCancel(ev.segmentId, timing);
+				this.emit("speechCancel", ev.segmentId, timing);
+				break;
+			}
+			case Message.ThresholdsChanged: {
+				const timing = this.getFrameTiming(ev.index);
+				this.options.onThresholdsChanged(ev.thresholds, timing);
+				this.emit("thresholdsChanged", ev.thresholds, timing);
+				break;
+			}
 		}
 	};
 
-	/** Clean up resources */
-	destroy(): void {
-		this.pause();
-		this.reset();
+	private getTiming(segment: SegmentFrames): VADEventTiming {
+		return {
+			start: this.getTimestamp(segment.start),
+			end: this.getTimestamp(segment.end),
+			paddedStart: this.getTimestamp(segment.paddedStart),
+			paddedEnd: this.getTimestamp(segment.paddedEnd),
+		};
+	}
+
+	/** Timing of a single frame, delimited alike by all four timestamps */
+	private getFrameTiming(frameIndex: number): VADEventTiming {
+		return this.getTiming({
+			paddedStart: frameIndex,
+			start: frameIndex,
+			end: frameIndex + 1,
+			paddedEnd: frameIndex + 1,
+		});
+	}
+
+	private getModelDescriptor() {
+		return getModelDescriptor(this.options.model ?? DEFAULT_MODEL);
+	}
+
+	private getTimestamp(frameIndex: number): VADTimestamp {
+		const modelSample = (frameIndex - this.startFrame) * this.frameSize;
+		return {
+			modelSample,
+			inputSample: Math.round(
+				(modelSample * this.options.sampleRate) / this.options.modelSampleRate,
+			),
+			ms: (modelSample * 1000) / this.options.modelSampleRate,
+		};
+	}
+
+	/**
+	 * Clean up resources, returning the model state to the session pool if
+	 * any. Waiting chunks are dropped; the chunk being processed is finished
+	 * first.
+	 */
+	destroy(): Promise<void> {
+		this.queue.clear();
+		this.active = false;
+		return this.queue.run(async () => {
+			this.frameProcessor.pause(this.handleEvent);
+			this.resetState();
+			this.options.sessionPool?.release(this.modelInstance);
+		});
 	}
 }
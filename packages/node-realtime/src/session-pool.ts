@@ -0,0 +1,199 @@
+import * as ort from "onnxruntime-node";
+import { BatchScheduler } from "./batch-scheduler";
+import {
+	type Model,
+	type ModelFetcher,
+	OnnxVADModel,
+	createSession,
+	log,
+} from "./common";
+import { getModelDescriptor } from "./model-registry";
+import type { ModelVersion } from "./real-time-vad";
+
+export interface VADSessionPoolOptions {
+	/** Maximum number of distinct models loaded at the same time */
+	maxSessions: number;
+	/** Maximum number of per-stream model states handed out at the same time */
+	maxStreams: number;
+	/**
+	 * Run frames from different streams sharing a model as one batch of up to
+	 * this many frames (default: 1, no batching)
+	 */
+	maxBatchSize: number;
+	/** Longest time a frame waits for frames from other streams when batching */
+	maxWaitMs: number;
+}
+
+/**
+ * Loads each model once and hands out lightweight per-stream models that
+ * share the loaded InferenceSession but keep their own recurrent state.
+ *
+ * Pass the pool to `RealTimeVAD.new({ sessionPool })`; the stream state is
+ * returned to the pool when the VAD is destroyed.
+ *
+ * With `maxBatchSize` above 1, frames from the streams sharing a model are
+ * run together in batches; see BatchScheduler.
+ */
+export class VADSessionPool {
+	options: VADSessionPoolOptions;
+	private sessions = new Map<string, Promise<ort.InferenceSession>>();
+	private schedulers = new Map<string, BatchScheduler>();
+	private leased = new Set<Model>();
+	private pendingLeases = 0;
+	private disposed = false;
+
+	constructor(options: Partial<VADSessionPoolOptions> = {}) {
+		this.options = {
+			maxSessions: Number.POSITIVE_INFINITY,
+			maxStreams: Number.POSITIVE_INFINITY,
+			maxBatchSize: 1,
+			maxWaitMs: 5,
+			...options,
+		};
+	}
+
+	/** Number of models currently loaded */
+	get sessionCount(): number {
+		return this.sessions.size;
+	}
+
+	/** Number of per-stream models currently handed out */
+	get streamCount(): number {
+		return this.leased.size;
+	}
+
+	/**
+	 * Number of batched runs and of frames processed by them, across all
+	 * models. `frames / batches` is the average batch size.
+	 */
+	get batchStats(): { batches: number; frames: number } {
+		let batches = 0;
+		let frames = 0;
+		for (const scheduler of Array.from(this.schedulers.values())) {
+			batches += scheduler.batches;
+			frames += scheduler.frames;
+		}
+		return { batches, frames };
+	}
+
+	/**
+	 * Get a model with fresh state for one stream fed audio at `sampleRate`.
+	 * The session is loaded with `modelFetcher` the first time `key` is
+	 * requested and reused afterwards.
+	 */
+	async acquire(
+		modelVersion: ModelVersion,
+		modelFetcher: ModelFetcher,
+		key: string = modelVersion,
+		sampleRate = 16000,
+	): Promise<Model> {
+		if (this.disposed) {
+			throw new Error("VADSessionPool has been disposed");
+		}
+		if (this.leased.size + this.pendingLeases >= this.options.maxStreams) {
+			throw new Error(
+				`VADSessionPool is full: ${this.options.maxStreams} streams in use`,
+			);
+		}
+
+		this.pendingLeases++;
+		try {
+			const session = await this.getSession(key, modelFetcher);
+			let model: Model;
+			if (this.options.maxBatchSize > 1) {
+				model = this.getScheduler(
+					key,
+					modelVersion,
+					session,
+					sampleRate,
+				).createModel();
+			} else {
+				model = new OnnxVADModel(
+					ort,
+					session,
+					getModelDescriptor(modelVersion),
+					sampleRate,
+				);
+			}
+			this.leased.add(model);
+			return model;
+		} finally {
+			this.pendingLeases--;
+		}
+	}
+
+	/** Return a model obtained from `acquire`; its session stays loaded */
+	release(model: Model): void {
+		this.leased.delete(model);
+		for (const scheduler of Array.from(this.schedulers.values())) {
+			scheduler.remove(model);
+		}
+	}
+
+	/**
+	 * Release every loaded session. Models handed out by the pool can no
+	 * longer be used and further calls to `acquire` are rejected.
+	 */
+	async dispose(): Promise<void> {
+		this.disposed = true;
+		const sessions = Array.from(this.sessions.values());
+		this.sessions.clear();
+		for (const scheduler of Array.from(this.schedulers.values())) {
+			scheduler.close();
+		}
+		this.schedulers.clear();
+		this.leased.clear();
+		await Promise.all(
+			sessions.map((session) =>
+				session.then(
+					(s) => s.release(),
+					() => {
+						/* failed loads have nothing to release */
+					},
+				),
+			),
+		);
+	}
+
+	private getScheduler(
+		key: string,
+		modelVersion: ModelVersion,
+		session: ort.InferenceSession,
+		sampleRate: number,
+	): BatchScheduler {
+		// frames at different sample rates cannot share a batch
+		const schedulerKey = `${key}@${sampleRate}`;
+		let scheduler = this.schedulers.get(schedulerKey);
+		if (!scheduler) {
+			scheduler = new BatchScheduler(ort, session, modelVersion, {
+				maxBatchSize: this.options.maxBatchSize,
+				maxWaitMs: this.options.maxWaitMs,
+				sampleRate,
+			});
+			this.schedulers.set(schedulerKey, scheduler);
+		}
+		return scheduler;
+	}
+
+	private getSession(
+		key: string,
+		modelFetcher: ModelFetcher,
+	): Promise<ort.InferenceSession> {
+		const existing = this.sessions.get(key);
+		if (existing) return existing;
+
+		if (this.sessions.size >= this.options.maxSessions) {
+			throw new Error(
+				`VADSessionPool is full: ${this.options.maxSessions} models loaded`,
+			);
+		}
+		log.debug(`Loading VAD model "${key}" into session pool`);
+		const session = createSession(ort, modelFetcher);
+		this.sessions.set(key, session);
+		// allow a later acquire to retry a load that failed
+		session.catch(() => {
+			if (this.sessions.get(key) === session) this.sessions.delete(key);
+		});
+		return session;
+	}
+}
@@ -0,0 +1,306 @@
+import * as os from "node:os";
+import * as path from "node:path";
+import { Worker } from "node:worker_threads";
+import type { VADModelDescriptor } from "./common";
+import type { AudioInput } from "./pcm-decoder";
+import type {
+	RealTimeVADEvents,
+	RealTimeVADOptions,
+	RealTimeVADState,
+} from "./real-time-vad";
+import type { VADSessionPoolOptions } from "./session-pool";
+
+/**
+ * RealTimeVAD options that can be sent to a worker: everything but the
+ * callbacks and objects bound to the main thread
+ */
+export type WorkerVADOptions = Omit<
+	RealTimeVADOptions,
+	| "onFrameProcessed"
+	| "onVADMisfire"
+	| "onSpeechStart"
+	| "onSpeechRealStart"
+	| "onSpeechEnd"
+	| "onSpeechChunk"
+	| "onSpeechCancel"
+	| "onOverflow"
+	| "onThresholdsChanged"
+	| "onOptionsChanged"
+	| "ortConfig"
+	| "sessionPool"
+	| "modelFetcher"
+>;
+
+/** Audio moved between threads as a bare ArrayBuffer so it can be transferred */
+export interface TransferredAudio {
+	kind: "f32" | "s16" | "bytes";
+	buffer: ArrayBuffer;
+}
+
+export type WorkerRequest =
+	| {
+			type: "create";
+			seq: number;
+			id: number;
+			options: WorkerVADOptions;
+			/** Registered in the worker if its model is not known there yet */
+			descriptor: Omit<VADModelDescriptor, "fetcher">;
+	  }
+	| { type: "process"; seq: number; id: number; audio: TransferredAudio }
+	| {
+			type: "update";
+			seq: number;
+			id: number;
+			options: Partial<WorkerVADOptions>;
+	  }
+	| {
+			type: "call";
+			seq: number;
+			id: number;
+			method: "start" | "pause" | "flush" | "reset" | "destroy";
+	  }
+	| { type: "getState"; seq: number; id: number }
+	| {
+			type: "restoreState";
+			seq: number;
+			id: number;
+			state: RealTimeVADState;
+	  };
+
+export type WorkerResponse =
+	| {
+			type: "done";
+			seq: number;
+			/** Value the request resolved with, such as the state of `getState` */
+			result?: unknown;
+			error?: { name: string; message: string };
+	  }
+	| {
+			type: "event";
+			id: number;
+			event: keyof RealTimeVADEvents;
+			args: unknown[];
+	  };
+
+/** Data passed to every worker on startup */
+export interface VADWorkerData {
+	sessionPool: Partial<VADSessionPoolOptions>;
+}
+
+/**
+ * Wrap an audio chunk for postMessage. With `zeroCopy`, a view covering its
+ * whole ArrayBuffer is transferred, leaving it detached (empty) for the
+ * caller; other views are copied first so that no unrelated memory, such as
+ * Node's shared Buffer pool, is sent or detached.
+ */
+export function toTransferredAudio(
+	audio: AudioInput,
+	zeroCopy: boolean,
+): TransferredAudio {
+	const kind =
+		audio instanceof Float32Array
+			? "f32"
+			: audio instanceof Int16Array
+				? "s16"
+				: "bytes";
+	const whole =
+		audio.byteOffset === 0 &&
+		audio.byteLength === audio.buffer.byteLength &&
+		audio.buffer instanceof ArrayBuffer;
+	const buffer =
+		zeroCopy && whole
+			? (audio.buffer as ArrayBuffer)
+			: (audio.buffer as ArrayBuffer).slice(
+					audio.byteOffset,
+					audio.byteOffset + audio.byteLength,
+				);
+	return { kind, buffer };
+}
+
+export function fromTransferredAudio({
+	kind,
+	buffer,
+}: TransferredAudio): AudioInput {
+	switch (kind) {
+		case "f32":
+			return new Float32Array(buffer);
+		case "s16":
+			return new Int16Array(buffer);
+		case "bytes":
+			return Buffer.from(buffer);
+	}
+}
+
+type EventHandler = (event: keyof RealTimeVADEvents, args: unknown[]) => void;
+
+interface PendingRequest {
+	resolve: (result: unknown) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * One worker thread hosting any number of VAD instances
+ */
+export class VADWorker {
+	private worker: Worker;
+	private seq = 0;
+	private pending = new Map<number, PendingRequest>();
+	private handlers = new Map<number, EventHandler>();
+	private nextId = 0;
+	private exitError: Error | null = null;
+
+	constructor(workerData: VADWorkerData) {
+		this.worker = new Worker(path.join(__dirname, "worker.js"), {
+			workerData,
+		});
+		this.worker.on("message", this.onMessage);
+		this.worker.on("error", (error) => this.fail(error));
+		this.worker.on("exit", (code) =>
+			this.fail(new Error(`VAD worker exited with code ${code}`)),
+		);
+		// only keep the process alive while a request is in flight
+		this.worker.unref();
+	}
+
+	/** Number of VAD instances hosted by this worker */
+	get instanceCount(): number {
+		return this.handlers.size;
+	}
+
+	/** Whether the worker has crashed or been terminated */
+	get dead(): boolean {
+		return this.exitError !== null;
+	}
+
+	/** Reserve an instance id whose events are passed to `handler` */
+	register(handler: EventHandler): number {
+		const id = this.nextId++;
+		this.handlers.set(id, handler);
+		return id;
+	}
+
+	unregister(id: number): void {
+		this.handlers.delete(id);
+	}
+
+	/** Send a request and wait until the worker has handled it, with its result */
+	request<T = void>(
+		message: DistributiveOmit<WorkerRequest, "seq">,
+		transfer: ArrayBuffer[] = [],
+	): Promise<T> {
+		if (this.exitError) return Promise.reject(this.exitError);
+		const seq = this.seq++;
+		return new Promise<T>((resolve, reject) => {
+			if (this.pending.size === 0) this.worker.ref();
+			this.pending.set(seq, {
+				resolve: (result) => resolve(result as T),
+				reject,
+			});
+			this.worker.postMessage({ ...message, seq }, transfer);
+		});
+	}
+
+	terminate(): Promise<number> {
+		return this.worker.terminate();
+	}
+
+	private onMessage = (message: WorkerResponse): void => {
+		if (message.type === "event") {
+			this.handlers.get(message.id)?.(message.event, message.args);
+			return;
+		}
+		const request = this.pending.get(message.seq);
+		if (!request) return;
+		this.pending.delete(message.seq);
+		if (this.pending.size === 0) this.worker.unref();
+		if (message.error) {
+			const error = new Error(message.error.message);
+			error.name = message.error.name;
+			request.reject(error);
+		} else {
+			request.resolve(message.result);
+		}
+	};
+
+	private fail(error: Error): void {
+		if (this.exitError) return;
+		this.exitError = error;
+		const pending = Array.from(this.pending.values());
+		this.pending.clear();
+		for (const request of pending) {
+			request.reject(error);
+		}
+	}
+}
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+	? Omit<T, K>
+	: never;
+
+export interface VADWorkerPoolOptions {
+	/** Maximum number of worker threads (default: number of CPUs minus one) */
+	size: number;
+	/** Options for the session pool shared by the instances of each worker */
+	sessionPool: Partial<VADSessionPoolOptions>;
+}
+
+/**
+ * Pool of worker threads running WorkerRealTimeVAD instances. Workers are
+ * started on demand and each new instance is placed on the worker hosting
+ * the fewest instances. Instances on the same worker share their model
+ * through a VADSessionPool.
+ */
+export class VADWorkerPool {
+	options: VADWorkerPoolOptions;
+	private workers: VADWorker[] = [];
+
+	constructor(options: Partial<VADWorkerPoolOptions> = {}) {
+		this.options = {
+			size: Math.max(1, os.cpus().length - 1),
+			sessionPool: {},
+			...options,
+		};
+		if (!Number.isInteger(this.options.size) || this.options.size < 1) {
+			throw new Error(
+				`Worker pool size must be a positive integer, got ${this.options.size}`,
+			);
+		}
+	}
+
+	/** Number of running workers */
+	get workerCount(): number {
+		return this.workers.length;
+	}
+
+	/** Pick the worker for a new instance, starting one if the pool is not full */
+	acquire(): VADWorker {
+		this.workers = this.workers.filter((worker) => !worker.dead);
+		const idle = this.workers.find((worker) => worker.instanceCount === 0);
+		if (idle) return idle;
+		if (this.workers.length < this.options.size) {
+			const worker = new VADWorker({
+				sessionPool: this.options.sessionPool,
+			});
+			this.workers.push(worker);
+			return worker;
+		}
+		return this.workers.reduce((least, worker) =>
+			worker.instanceCount < least.instanceCount ? worker : least,
+		);
+	}
+
+	/** Stop every worker; instances running on them can no longer be used */
+	async terminate(): Promise<void> {
+		const workers = this.workers;
+		this.workers = [];
+		await Promise.all(workers.map((worker) => worker.terminate()));
+	}
+}
+
+let defaultPool: VADWorkerPool | null = null;
+
+/** The pool used by WorkerRealTimeVAD when no `workerPool` is given */
+export function getDefaultWorkerPool(): VADWorkerPool {
+	if (!defaultPool) defaultPool = new VADWorkerPool();
+	return defaultPool;
+}
@@ -0,0 +1,382 @@
+import { OptionsUpdateError, log, mergeOptions } from "./common";
+import { TypedEventEmitter } from "./common/event-emitter";
+import { getModelDescriptor } from "./model-registry";
+import type { AudioInput, AudioSource } from "./pcm-decoder";
+import {
+	DEFAULT_MODEL,
+	type RealTimeVADEvents,
+	type RealTimeVADOptions,
+	type RealTimeVADState,
+	type SpeechSegment,
+	type VADEventTiming,
+	type VADStats,
+	getDefaultRealTimeVADOptions,
+	getFixedOptionChanges,
+	getVADStats,
+	rejectIntroducedViolations,
+	validateRealTimeVADOptions,
+} from "./real-time-vad";
+import {
+	type VADWorker,
+	type VADWorkerPool,
+	type WorkerVADOptions,
+	getDefaultWorkerPool,
+	toTransferredAudio,
+} from "./worker-pool";
+
+/**
+ * Options for WorkerRealTimeVAD: the RealTimeVAD options, except `ortConfig`,
+ * `sessionPool` and `modelFetcher`, plus the worker settings
+ */
+export interface WorkerRealTimeVADOptions
+	extends Omit<
+		RealTimeVADOptions,
+		"ortConfig" | "sessionPool" | "modelFetcher"
+	> {
+	/** Pool running the instance (default: a pool shared by all instances) */
+	workerPool?: VADWorkerPool;
+	/**
+	 * Transfer audio passed to `processAudio` to the worker without copying
+	 * when it covers its whole ArrayBuffer. The caller's array is then
+	 * detached and must not be used afterwards. (default: false)
+	 */
+	transferAudio: boolean;
+}
+
+/**
+ * RealTimeVAD running in a worker thread. Resampling, frame processing and
+ * inference happen off the main thread; events and callbacks are delivered
+ * on the main thread in the same order as with RealTimeVAD.
+ */
+export class WorkerRealTimeVAD extends TypedEventEmitter<RealTimeVADEvents> {
+	private active = false;
+	private destroyed = false;
+	/** Counted from the `frameProcessed` events forwarded by the worker */
+	private frames = 0;
+	private skippedFrames = 0;
+	/** `processAudio` calls not resolved yet */
+	private processing = 0;
+
+	private constructor(
+		private options: WorkerRealTimeVADOptions,
+		private worker: VADWorker,
+		private id: number,
+	) {
+		super();
+	}
+
+	/**
+	 * Create a RealTimeVAD on a worker of `options.workerPool`
+	 */
+	static async new(
+		opts: Partial<WorkerRealTimeVADOptions> = {},
+	): Promise<WorkerRealTimeVAD> {
+		const unsupported = opts as Partial<RealTimeVADOptions>;
+		if (unsupported.ortConfig || unsupported.sessionPool) {
+			throw new Error(
+				"ortConfig and sessionPool cannot be used with WorkerRealTimeVAD; " +
+					"configure the session pool of the workers with VADWorkerPool",
+			);
+		}
+		if (unsupported.modelFetcher) {
+			throw new Error(
+				"modelFetcher cannot be used with WorkerRealTimeVAD; " +
+					"use modelPath or modelBuffer instead",
+			);
+		}
+		if (opts.strict) {
+			// errors thrown by the worker lose their class and violations
+			validateRealTimeVADOptions(opts);
+		}
+		const options = mergeOptions<WorkerRealTimeVADOptions>(
+			{
+				...getDefaultRealTimeVADOptions(opts.model, opts.modelSampleRate),
+				transferAudio: false,
+			},
+			opts,
+		);
+		const {
+			onFrameProcessed,
+			onVADMisfire,
+			onSpeechStart,
+			onSpeechRealStart,
+			onSpeechEnd,
+			onSpeechChunk,
+			onSpeechCancel,
+			onOverflow,
+			onThresholdsChanged,
+			onOptionsChanged,
+			ortConfig,
+			sessionPool,
+			modelFetcher,
+			workerPool,
+			transferAudio,
+			...workerOptions
+		} = options as WorkerRealTimeVADOptions & RealTimeVADOptions;
+
+		// functions cannot be sent, so the worker loads the model from elsewhere
+		const { fetcher, ...descriptor } = getModelDescriptor(
+			workerOptions.model ?? DEFAULT_MODEL,
+		);
+		const worker = (workerPool ?? getDefaultWorkerPool()).acquire();
+		let vad: WorkerRealTimeVAD | null = null;
+		const id = worker.register((event, args) => vad?.handleEvent(event, args));
+		vad = new WorkerRealTimeVAD(options, worker, id);
+		try {
+			await worker.request({
+				type: "create",
+				id,
+				options: workerOptions,
+				descriptor,
+			});
+		} catch (e) {
+			worker.unregister(id);
+			throw e;
+		}
+		return vad;
+	}
+
+	/** Start processing incoming frames, after the chunks already sent */
+	start(): void {
+		this.active = true;
+		this.worker
+			.request({ type: "call", id: this.id, method: "start" })
+			.catch((e: Error) => {
+				log.error(`WorkerRealTimeVAD start failed: ${e.message}`);
+			});
+	}
+
+	/**
+	 * Pause processing once the chunks already sent have been processed; may
+	 * emit end-segment on pause. Resolves once the worker has paused.
+	 */
+	pause(): Promise<void> {
+		this.active = false;
+		return this.worker.request({ type: "call", id: this.id, method: "pause" });
+	}
+
+	/**
+	 * Send raw audio (any sample rate) to the worker. Resolves once it has
+	 * been processed and its events have been emitted.
+	 */
+	async processAudio(audioData: AudioInput): Promise<void> {
+		if (!this.active) return;
+		const audio = toTransferredAudio(audioData, this.options.transferAudio);
+		this.processing++;
+		try {
+			await this.worker.request({ type: "process", id: this.id, audio }, [
+				audio.buffer,
+			]);
+		} finally {
+			this.processing--;
+		}
+	}
+
+	/**
+	 * Number of chunks passed to `processAudio` that are waiting to be
+	 * processed, including those still on their way to the worker
+	 */
+	get queueLength(): number {
+		return Math.max(0, this.processing - 1);
+	}
+
+	/** Flush any remaining audio and end segment */
+	async flush(): Promise<void> {
+		await this.worker.request({ type: "call", id: this.id, method: "flush" });
+	}
+
+	/**
+	 * Frames processed so far and how many of them skipped the model, as of
+	 * the last event received from the worker
+	 */
+	get stats(): VADStats {
+		return getVADStats(this.frames, this.skippedFrames);
+	}
+
+	/** Reset internal state, after the chunks already sent */
+	reset(): Promise<void> {
+		return this.worker.request({ type: "call", id: this.id, method: "reset" });
+	}
+
+	/** See `RealTimeVAD.getState`; the snapshot is taken in the worker */
+	getState(): Promise<RealTimeVADState> {
+		return this.worker.request<RealTimeVADState>({
+			type: "getState",
+			id: this.id,
+		});
+	}
+
+	/**
+	 * See `RealTimeVAD.restoreState`. The state can come from a RealTimeVAD
+	 * as well as from a WorkerRealTimeVAD.
+	 */
+	async restoreState(state: RealTimeVADState): Promise<void> {
+		await this.worker.request({ type: "restoreState", id: this.id, state });
+		this.active = state.active;
+		this.frames = state.frameProcessor.frameCount;
+		this.skippedFrames = state.frameProcessor.skippedFrames;
+	}
+
+	/**
+	 * Change options of the running instance; see `RealTimeVAD.updateOptions`.
+	 * Callbacks are replaced on the main thread once the worker has applied
+	 * the other changes.
+	 */
+	async updateOptions(
+		changes: Partial<WorkerRealTimeVADOptions>,
+	): Promise<void> {
+		const fixed = getFixedOptionChanges(this.options, changes);
+		if (fixed.length > 0) {
+			throw new OptionsUpdateError(fixed);
+		}
+		const options = mergeOptions(this.options, changes);
+		rejectIntroducedViolations(this.options, options);
+		if (options.strict) validateRealTimeVADOptions(options);
+		const workerChanges: Partial<WorkerVADOptions> = {};
+		for (const [key, value] of Object.entries(changes)) {
+			if (typeof value !== "function") {
+				Object.assign(workerChanges, { [key]: value });
+			}
+		}
+		await this.worker.request({
+			type: "update",
+			id: this.id,
+			options: workerChanges,
+		});
+		this.options = options;
+		this.options.onOptionsChanged(changes);
+		this.emit("optionsChanged", changes);
+	}
+
+	/**
+	 * Run the VAD over a source of audio chunks, yielding each speech segment
+	 * as soon as it ends. The VAD is started if needed and flushed once the
+	 * source is exhausted.
+	 */
+	async *segments(source: AudioSource): AsyncGenerator<SpeechSegment> {
+		const pending: SpeechSegment[] = [];
+		const onSpeechEnd = (
+			audio: Float32Array,
+			timing: VADEventTiming,
+			forced: boolean,
+		) => {
+			pending.push({ audio, timing, forced });
+		};
+		this.on("speechEnd", onSpeechEnd);
+		try {
+			if (!this.active) this.start();
+			for await (const chunk of source) {
+				await this.processAudio(chunk);
+				while (pending.length > 0) {
+					yield pending.shift() as SpeechSegment;
+				}
+			}
+			await this.flush();
+			while (pending.length > 0) {
+				yield pending.shift() as SpeechSegment;
+			}
+		} finally {
+			this.off("speechEnd", onSpeechEnd);
+		}
+	}
+
+	/**
+	 * Destroy the instance on its worker once the chunk being processed is
+	 * done; the worker keeps running for others
+	 */
+	async destroy(): Promise<void> {
+		if (this.destroyed) return;
+		this.destroyed = true;
+		this.active = false;
+		try {
+			await this.worker.request({
+				type: "call",
+				id: this.id,
+				method: "destroy",
+			});
+		} catch (e) {
+			// a worker that exited has nothing left to destroy
+			if (!this.worker.dead) throw e;
+		} finally {
+			this.worker.unregister(this.id);
+		}
+	}
+
+	private handleEvent(event: keyof RealTimeVADEvents, args: unknown[]): void {
+		switch (event) {
+			case "frameProcessed": {
+				const [probs, frame, timing, smoothedProbs, skipped] =
+					args as RealTimeVADEvents["frameProcessed"];
+				this.frames++;
+				if (skipped) this.skippedFrames++;
+				this.options.onFrameProcessed(
+					probs,
+					frame,
+					timing,
+					smoothedProbs,
+					skipped,
+				);
+				this.emit(
+					"frameProcessed",
+					probs,
+					frame,
+					timing,
+					smoothedProbs,
+					skipped,
+				);
+				break;
+			}
+			case "speechStart": {
+				const [timing] = args as RealTimeVADEvents["speechStart"];
+				this.options.onSpeechStart(timing);
+				this.emit("speechStart", timing);
+				break;
+			}
+			case "speechRealStart": {
+				const [timing] = args as RealTimeVADEvents["speechRealStart"];
+				this.options.onSpeechRealStart(timing);
+				this.emit("speechRealStart", timing);
+				break;
+			}
+			case "vadMisfire": {
+				const [timing] = args as RealTimeVADEvents["vadMisfire"];
+				this.options.onVADMisfire(timing);
+				this.emit("vadMisfire", timing);
+				break;
+			}
+			case "speechEnd": {
+				const [audio, timing, forced, segmentId] =
+					args as RealTimeVADEvents["speechEnd"];
+				this.options.onSpeechEnd(audio, timing, forced, segmentId);
+				this.emit("speechEnd", audio, timing, forced, segmentId);
+				break;
+			}
+			case "speechChunk": {
+				const [audio, segmentId, timing] =
+					args as RealTimeVADEvents["speechChunk"];
+				this.options.onSpeechChunk(audio, segmentId, timing);
+				this.emit("speechChunk", audio, segmentId, timing);
+				break;
+			}
+			case "speechCancel": {
+				const [segmentId, timing] = args as RealTimeVADEvents["speechCancel"];
+				this.options.onSpeechCancel(segmentId, timing);
+				this.emit("speechCancel", segmentId, timing);
+				break;
+			}
+			case "overflow": {
+				const [overflow] = args as RealTimeVADEvents["overflow"];
+				this.options.onOverflow(overflow);
+				this.emit("overflow", overflow);
+				break;
+			}
+			case "thresholdsChanged": {
+				const [thresholds, timing] =
+					args as RealTimeVADEvents["thresholdsChanged"];
+				this.options.onThresholdsChanged(thresholds, timing);
+				this.emit("thresholdsChanged", thresholds, timing);
+				break;
+			}
+		}
+	}
+}
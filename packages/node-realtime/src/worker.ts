@@ -0,0 +1,141 @@
+/**
+ * Entry point of the worker threads started by VADWorkerPool. Each worker
+ * hosts RealTimeVAD instances created on behalf of WorkerRealTimeVAD and
+ * posts their events back to the main thread.
+ */
+import { parentPort, workerData } from "node:worker_threads";
+import * as ort from "onnxruntime-node";
+import {
+	getModelFetcher,
+	getRegisteredModels,
+	registerModel,
+} from "./model-registry";
+import {
+	DEFAULT_MODEL,
+	RealTimeVAD,
+	type RealTimeVADEvents,
+} from "./real-time-vad";
+import { VADSessionPool } from "./session-pool";
+import {
+	type VADWorkerData,
+	type WorkerRequest,
+	type WorkerResponse,
+	fromTransferredAudio,
+} from "./worker-pool";
+
+const port = parentPort;
+if (!port) {
+	throw new Error("worker.js must be run as a worker thread");
+}
+
+const { sessionPool: sessionPoolOptions } = workerData as VADWorkerData;
+const sessionPool = new VADSessionPool(sessionPoolOptions);
+const instances = new Map<number, Promise<RealTimeVAD>>();
+
+const EVENTS: (keyof RealTimeVADEvents)[] = [
+	"frameProcessed",
+	"vadMisfire",
+	"speechStart",
+	"speechRealStart",
+	"speechEnd",
+	"speechChunk",
+	"speechCancel",
+	"overflow",
+	"thresholdsChanged",
+];
+
+/** Copy a view unless it covers its whole buffer, which is then transferred */
+function ownBuffer(array: Float32Array): Float32Array {
+	return array.byteOffset === 0 && array.byteLength === array.buffer.byteLength
+		? array
+		: array.slice();
+}
+
+function forwardEvents(id: number, vad: RealTimeVAD): void {
+	for (const event of EVENTS) {
+		vad.on(event, (...args: unknown[]) => {
+			const transfer: ArrayBuffer[] = [];
+			const message: WorkerResponse = {
+				type: "event",
+				id,
+				event,
+				args: args.map((arg) => {
+					if (!(arg instanceof Float32Array)) return arg;
+					// processed frames are kept until their segment ends
+					const array =
+						event === "frameProcessed" ? arg.slice() : ownBuffer(arg);
+					transfer.push(array.buffer as ArrayBuffer);
+					return array;
+				}),
+			};
+			port?.postMessage(message, transfer);
+		});
+	}
+}
+
+// async so that errors thrown while handling a request reject it instead of
+// ending the worker and every instance on it
+async function handle(request: WorkerRequest): Promise<unknown> {
+	if (request.type === "create") {
+		const model = request.options.model ?? DEFAULT_MODEL;
+		if (!getRegisteredModels().includes(model)) {
+			registerModel(model, request.descriptor);
+		}
+		const vad = RealTimeVAD.new(ort, getModelFetcher(model), {
+			...request.options,
+			sessionPool,
+		});
+		instances.set(request.id, vad);
+		return vad.then((created) => forwardEvents(request.id, created));
+	}
+
+	const instance = instances.get(request.id);
+	if (!instance) {
+		throw new Error(`Unknown VAD instance ${request.id}`);
+	}
+	// callbacks on the same promise run in request order; the VAD queues
+	// audio itself, so its overflow policy applies to chunks sent in a burst
+	return instance.then<unknown>((vad) => {
+		if (request.type === "process") {
+			return vad.processAudio(fromTransferredAudio(request.audio));
+		}
+		if (request.type === "update") {
+			return vad.updateOptions(request.options);
+		}
+		if (request.type === "getState") {
+			return vad.getState();
+		}
+		if (request.type === "restoreState") {
+			return vad.restoreState(request.state);
+		}
+		switch (request.method) {
+			case "start":
+				return vad.start();
+			case "pause":
+				return vad.pause();
+			case "flush":
+				return vad.flush();
+			case "reset":
+				return vad.reset();
+			case "destroy":
+				instances.delete(request.id);
+				return vad.destroy().then(() => {
+					vad.removeAllListeners();
+				});
+		}
+	});
+}
+
+port.on("message", (request: WorkerRequest) => {
+	handle(request).then(
+		(result) => port.postMessage({ type: "done", seq: request.seq, result }),
+		(error: Error) => {
+			if (request.type === "create") instances.delete(request.id);
+			port.postMessage({
+				type: "done",
+				seq: request.seq,
+				error: { name: error.name, message: error.message },
+			});
+		},
+	);
+});
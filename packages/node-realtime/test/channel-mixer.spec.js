@@ -0,0 +1,31 @@
+const vad = require("@ricky0123/vad-node")
+const { assert } = require("chai")
+
+describe("ChannelMixer", function () {
+  const stereo = new Float32Array([0.5, -0.5, 0.25, 0.75, 1, 0])
+
+  it("downmixes by averaging channels", function () {
+    const mixer = new vad.ChannelMixer(2, "downmix")
+    assert.deepEqual([...mixer.mix(stereo)], [0, 0.5, 0.5])
+  })
+
+  it("selects a single channel", function () {
+    const mixer = new vad.ChannelMixer(2, { select: 1 })
+    assert.deepEqual([...mixer.mix(stereo)], [-0.5, 0.75, 0])
+  })
+
+  it("picks the channel with the most energy", function () {
+    const mixer = new vad.ChannelMixer(2, "max-energy")
+    assert.deepEqual([...mixer.mix(stereo)], [0.5, 0.25, 1])
+  })
+
+  it("carries incomplete frames over to the next chunk", function () {
+    const mixer = new vad.ChannelMixer(2, { select: 0 })
+    assert.deepEqual([...mixer.mix(stereo.subarray(0, 3))], [0.5])
+    assert.deepEqual([...mixer.mix(stereo.subarray(3))], [0.25, 1])
+  })
+
+  it("rejects a selected channel that does not exist", function () {
+    assert.throws(() => new vad.ChannelMixer(2, { select: 2 }))
+  })
+})
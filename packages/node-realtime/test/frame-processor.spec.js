@@ -235,3 +235,635 @@ describe("frame processor algorithm", function () {
     )
   })
 })
+
+async function processFrame(frameProcessor, frame) {
+  const events = []
+  await frameProcessor.process(frame, (event) => events.push(event))
+  return events.filter((event) => event.msg !== vad.Message.FrameProcessed)
+}
+
+describe("frame processor segment frames", function () {
+  it("reports padded and unpadded frame indices", async function () {
+    let { modelFunc, resetFunc, options } = getOptions({
+      preSpeechPadFrames: 2,
+      minSpeechFrames: 2,
+      redemptionFrames: 3,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    let events
+    returnNotSpeech(modelFunc, options.negativeSpeechThreshold)
+    for (let i = 0; i < 4; i++) {
+      await processFrame(frameProcessor, new Float32Array([i]))
+    }
+    returnSpeech(modelFunc, options.positiveSpeechThreshold)
+    events = await processFrame(frameProcessor, new Float32Array([4]))
+    assert.strictEqual(events[0].msg, vad.Message.SpeechStart)
+    assert.deepEqual(events[0].segment, {
+      paddedStart: 2,
+      start: 4,
+      end: 5,
+      paddedEnd: 5,
+    })
+    await processFrame(frameProcessor, new Float32Array([5]))
+    returnNotSpeech(modelFunc, options.negativeSpeechThreshold)
+    for (let i = 6; i < 6 + options.redemptionFrames; i++) {
+      events = await processFrame(frameProcessor, new Float32Array([i]))
+    }
+    assert.strictEqual(events[0].msg, vad.Message.SpeechEnd)
+    assert.deepEqual(events[0].segment, {
+      paddedStart: 2,
+      start: 4,
+      end: 6,
+      paddedEnd: 9,
+    })
+    assertArrayEqual(events[0].audio, [2, 3, 4, 5, 6, 7, 8])
+  })
+})
+
+describe("frame processor max speech duration", function () {
+  function setProbability(modelFunc, isSpeech) {
+    modelFunc.returnValue = { isSpeech, notSpeech: 1 - isSpeech }
+  }
+
+  it("splits long speech at the least speech-like recent frame", async function () {
+    let { modelFunc, resetFunc, options } = getOptions({
+      preSpeechPadFrames: 0,
+      minSpeechFrames: 1,
+      redemptionFrames: 3,
+      maxSpeechFrames: 8,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    // frame 5 dips below the positive threshold without ending the segment
+    const probabilities = [0.9, 0.9, 0.9, 0.9, 0.8, 0.5, 0.7, 0.9]
+    const events = []
+    for (let i = 0; i < probabilities.length; i++) {
+      setProbability(modelFunc, probabilities[i])
+      events.push(...(await processFrame(frameProcessor, new Float32Array([i]))))
+    }
+    const speechEnd = events.find((e) => e.msg === vad.Message.SpeechEnd)
+    assert.isTrue(speechEnd.forced)
+    assertArrayEqual(speechEnd.audio, [0, 1, 2, 3, 4, 5])
+    assert.deepEqual(speechEnd.segment, {
+      paddedStart: 0,
+      start: 0,
+      end: 5,
+      paddedEnd: 6,
+    })
+
+    // the rest continues as a new segment
+    const speechStart = events.at(-2)
+    assert.strictEqual(speechStart.msg, vad.Message.SpeechStart)
+    assert.strictEqual(speechStart.segment.start, 6)
+    assert.strictEqual(events.at(-1).msg, vad.Message.SpeechRealStart)
+
+    returnNotSpeech(modelFunc, options.negativeSpeechThreshold)
+    let last
+    for (let i = 8; i < 8 + options.redemptionFrames; i++) {
+      last = await processFrame(frameProcessor, new Float32Array([i]))
+    }
+    assert.strictEqual(last[0].msg, vad.Message.SpeechEnd)
+    assert.isFalse(last[0].forced)
+    assertArrayEqual(last[0].audio, [6, 7, 8, 9, 10])
+  })
+
+  it("converts maxSpeechMs to frames", async function () {
+    let { modelFunc, resetFunc, options } = getOptions({
+      frameSamples: 512,
+      maxSpeechMs: 320,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    assert.strictEqual(frameProcessor.maxSegmentFrames, 10)
+    frameProcessor.options.maxSpeechFrames = 4
+    assert.strictEqual(frameProcessor.maxSegmentFrames, 4)
+  })
+})
+
+describe("frame processor speech chunks", function () {
+  function getStreamingOptions(overrides) {
+    return getOptions({ streamSpeech: true, ...overrides })
+  }
+
+  function concat(chunks) {
+    return chunks.reduce((out, chunk) => [...out, ...chunk.audio], [])
+  }
+
+  async function run(frameProcessor, modelFunc, probabilities) {
+    const events = []
+    for (let i = 0; i < probabilities.length; i++) {
+      const isSpeech = probabilities[i]
+      modelFunc.returnValue = { isSpeech, notSpeech: 1 - isSpeech }
+      events.push(...(await processFrame(frameProcessor, new Float32Array([i]))))
+    }
+    return events
+  }
+
+  it("streams confirmed speech that adds up to the segment audio", async function () {
+    let { modelFunc, resetFunc, options } = getStreamingOptions({
+      preSpeechPadFrames: 2,
+      minSpeechFrames: 3,
+      redemptionFrames: 2,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    const events = await run(
+      frameProcessor,
+      modelFunc,
+      [0, 0, 0, 0.9, 0.9, 0.9, 0.9, 0, 0]
+    )
+    const chunks = events.filter((e) => e.msg === vad.Message.SpeechChunk)
+    const speechEnd = events.find((e) => e.msg === vad.Message.SpeechEnd)
+
+    // the first chunk follows SpeechRealStart with the padding and buffered frames
+    const realStart = events.findIndex(
+      (e) => e.msg === vad.Message.SpeechRealStart
+    )
+    assert.strictEqual(events[realStart + 1], chunks[0])
+    assertArrayEqual(chunks[0].audio, [1, 2, 3, 4, 5])
+    assert.deepEqual(
+      chunks.slice(1).map((c) => c.audio.length),
+      [1, 1, 1]
+    )
+    assertArrayEqual(concat(chunks), speechEnd.audio)
+    for (const chunk of chunks) {
+      assert.strictEqual(chunk.segmentId, speechEnd.segmentId)
+    }
+  })
+
+  it("groups frames into chunks of at least speechChunkMs", async function () {
+    let { modelFunc, resetFunc, options } = getStreamingOptions({
+      frameSamples: 512,
+      preSpeechPadFrames: 0,
+      minSpeechFrames: 1,
+      redemptionFrames: 2,
+      speechChunkMs: 90,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    const events = await run(
+      frameProcessor,
+      modelFunc,
+      [0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0.9, 0, 0]
+    )
+    const chunks = events.filter((e) => e.msg === vad.Message.SpeechChunk)
+    // 90ms is just under 3 frames of 32ms
+    assert.deepEqual(
+      chunks.map((c) => c.audio.length),
+      [1, 3, 3, 3]
+    )
+  })
+
+  it("cancels segments that end as a misfire", async function () {
+    let { modelFunc, resetFunc, options } = getStreamingOptions({
+      preSpeechPadFrames: 0,
+      minSpeechFrames: 3,
+      redemptionFrames: 2,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    const events = await run(
+      frameProcessor,
+      modelFunc,
+      [0.9, 0, 0, 0.9, 0.9, 0.9, 0, 0]
+    )
+    assert.deepEqual(
+      events.map((e) => e.msg),
+      [
+        vad.Message.SpeechStart,
+        vad.Message.VADMisfire,
+        vad.Message.SpeechCancel,
+        vad.Message.SpeechStart,
+        vad.Message.SpeechRealStart,
+        vad.Message.SpeechChunk,
+        vad.Message.SpeechChunk,
+        vad.Message.SpeechChunk,
+        vad.Message.SpeechEnd,
+      ]
+    )
+    assert.strictEqual(events[2].segmentId, 0)
+    assert.strictEqual(events.at(-1).segmentId, 1)
+  })
+
+  it("holds back frames that a forced split may move", async function () {
+    let { modelFunc, resetFunc, options } = getStreamingOptions({
+      preSpeechPadFrames: 0,
+      minSpeechFrames: 1,
+      redemptionFrames: 3,
+      maxSpeechFrames: 8,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    const events = await run(
+      frameProcessor,
+      modelFunc,
+      [0.9, 0.9, 0.9, 0.9, 0.8, 0.5, 0.7, 0.9, 0.9, 0, 0, 0]
+    )
+    const ends = events.filter((e) => e.msg === vad.Message.SpeechEnd)
+    assert.lengthOf(ends, 2)
+    for (const end of ends) {
+      const chunks = events.filter(
+        (e) => e.msg === vad.Message.SpeechChunk && e.segmentId === end.segmentId
+      )
+      assertArrayEqual(concat(chunks), end.audio)
+    }
+  })
+})
+
+describe("frame processor durations in milliseconds", function () {
+  const durations = (options) => {
+    const frameProcessor = new vad.FrameProcessor(
+      sinon.stub(),
+      sinon.stub(),
+      options
+    )
+    return [
+      frameProcessor.redemptionFrames,
+      frameProcessor.preSpeechPadFrames,
+      frameProcessor.minSpeechFrames,
+    ]
+  }
+
+  it("converts the default durations for the frame size", function () {
+    assert.deepEqual(durations(vad.validateRealTimeVADOptions({})), [24, 3, 9])
+    assert.deepEqual(
+      durations(vad.validateRealTimeVADOptions({ frameSamples: 1536 })),
+      [8, 1, 3]
+    )
+    assert.deepEqual(
+      durations(vad.validateRealTimeVADOptions({ modelSampleRate: 8000 })),
+      [24, 3, 9]
+    )
+    assert.deepEqual(
+      durations(vad.validateRealTimeVADOptions({ model: "legacy" })),
+      [8, 1, 3]
+    )
+  })
+
+  it("rounds durations up to whole frames", function () {
+    const { options } = getOptions({
+      redemptionFrames: undefined,
+      redemptionMs: 100,
+      preSpeechPadFrames: undefined,
+      preSpeechPadMs: 0,
+      minSpeechFrames: undefined,
+      minSpeechMs: 97,
+    })
+    assert.deepEqual(durations(options), [2, 0, 2])
+  })
+
+  it("lets a duration in frames replace a default in milliseconds", function () {
+    const options = vad.validateRealTimeVADOptions({
+      strict: true,
+      redemptionFrames: 4,
+    })
+    assert.strictEqual(options.redemptionMs, undefined)
+    assert.deepEqual(durations(options), [4, 3, 9])
+  })
+
+  it("lets a duration in frames spread over the defaults replace them", function () {
+    const options = vad.validateRealTimeVADOptions({
+      ...vad.getDefaultRealTimeVADOptions("v5"),
+      strict: true,
+      redemptionFrames: 10,
+    })
+    assert.deepEqual(durations(options), [10, 3, 9])
+    const legacy = vad.validateRealTimeVADOptions({
+      ...vad.getDefaultRealTimeVADOptions("legacy"),
+      model: "legacy",
+      strict: true,
+      minSpeechFrames: 1,
+    })
+    assert.deepEqual(durations(legacy), [8, 1, 1])
+  })
+
+  it("lets a duration in frames replace the defaults of a registered model", function () {
+    const { fetcher, ...v5 } = vad.getModelDescriptor("v5")
+    vad.registerModel("test-ms-defaults", {
+      ...v5,
+      frameProcessorOptions: { ...v5.frameProcessorOptions, redemptionMs: 500 },
+    })
+    const options = vad.validateRealTimeVADOptions({
+      ...vad.getDefaultRealTimeVADOptions("test-ms-defaults"),
+      strict: true,
+      redemptionFrames: 10,
+    })
+    assert.deepEqual(durations(options), [10, 3, 9])
+  })
+
+  it("rejects a pair set in both units even if it matches the default", function () {
+    assert.throws(
+      () =>
+        vad.validateRealTimeVADOptions({
+          strict: true,
+          redemptionFrames: 10,
+          redemptionMs: 768,
+        }),
+      vad.VADConfigError,
+      /redemptionFrames and redemptionMs cannot both be set/
+    )
+  })
+
+  it("rejects a duration set in both units", function () {
+    assert.throws(
+      () =>
+        vad.validateRealTimeVADOptions({
+          strict: true,
+          minSpeechFrames: 3,
+          minSpeechMs: 100,
+        }),
+      vad.VADConfigError,
+      /minSpeechFrames and minSpeechMs cannot both be set/
+    )
+  })
+})
+
+describe("frame processor post-speech padding", function () {
+  async function run(overrides, probabilities) {
+    const { modelFunc, resetFunc, options } = getOptions({
+      preSpeechPadFrames: 1,
+      minSpeechFrames: 2,
+      redemptionFrames: 4,
+      ...overrides,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    const events = []
+    for (let i = 0; i < probabilities.length; i++) {
+      const isSpeech = probabilities[i]
+      modelFunc.returnValue = { isSpeech, notSpeech: 1 - isSpeech }
+      events.push(
+        ...(await processFrame(frameProcessor, new Float32Array([i])))
+      )
+    }
+    return events
+  }
+
+  const probabilities = [0, 0, 0.9, 0, 0.9, 0.9, 0, 0, 0, 0, 0]
+
+  it("keeps the whole redemption period by default", async function () {
+    const events = await run({}, probabilities)
+    const speechEnd = events.find((e) => e.msg === vad.Message.SpeechEnd)
+    assertArrayEqual(speechEnd.audio, [1, 2, 3, 4, 5, 6, 7, 8, 9])
+  })
+
+  it("trims the audio after the last speech frame to the padding", async function () {
+    const events = await run({ postSpeechPadFrames: 1 }, probabilities)
+    const speechEnd = events.find((e) => e.msg === vad.Message.SpeechEnd)
+    // the end is still decided after the redemption frames
+    assert.strictEqual(
+      events.filter((e) => e.msg === vad.Message.SpeechEnd).length,
+      1
+    )
+    assertArrayEqual(speechEnd.audio, [1, 2, 3, 4, 5, 6])
+    assert.deepEqual(speechEnd.segment, {
+      paddedStart: 1,
+      start: 2,
+      end: 6,
+      paddedEnd: 7,
+    })
+  })
+
+  it("does not stream audio that may be trimmed", async function () {
+    const events = await run(
+      { postSpeechPadFrames: 0, streamSpeech: true },
+      probabilities
+    )
+    const chunks = events.filter((e) => e.msg === vad.Message.SpeechChunk)
+    const speechEnd = events.find((e) => e.msg === vad.Message.SpeechEnd)
+    assertArrayEqual(speechEnd.audio, [1, 2, 3, 4, 5])
+    assertArrayEqual(
+      chunks.reduce((out, chunk) => [...out, ...chunk.audio], []),
+      speechEnd.audio
+    )
+  })
+})
+
+describe("frame processor adaptive thresholds", function () {
+  async function run(frameProcessor, modelFunc, probabilities) {
+    const events = []
+    for (let i = 0; i < probabilities.length; i++) {
+      const isSpeech = probabilities[i]
+      modelFunc.returnValue = { isSpeech, notSpeech: 1 - isSpeech }
+      events.push(
+        ...(await processFrame(frameProcessor, new Float32Array([0.01])))
+      )
+    }
+    return events
+  }
+
+  function create(overrides) {
+    const { modelFunc, resetFunc, options } = getOptions({
+      preSpeechPadFrames: 1,
+      minSpeechFrames: 2,
+      redemptionFrames: 2,
+      // two frames of 96ms
+      calibrationMs: 192,
+      ...overrides,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    return { frameProcessor, modelFunc }
+  }
+
+  const noise = [0.4, 0.7, 0.4, 0.7, 0.4, 0.7, 0.4, 0.7, 0.4, 0.7]
+
+  it("keeps the configured thresholds by default", async function () {
+    const { frameProcessor, modelFunc } = create({})
+    const events = await run(frameProcessor, modelFunc, noise)
+    assert.isFalse(events.some((e) => e.msg === vad.Message.ThresholdsChanged))
+    assert.isTrue(events.some((e) => e.msg === vad.Message.SpeechStart))
+  })
+
+  it("raises the thresholds above the background after calibration", async function () {
+    const { frameProcessor, modelFunc } = create({ adaptiveThresholds: true })
+    const events = await run(frameProcessor, modelFunc, noise)
+    const changes = events.filter(
+      (e) => e.msg === vad.Message.ThresholdsChanged
+    )
+    assert.strictEqual(changes.length, 2)
+    assert.strictEqual(changes[0].index, 0)
+    assert.include(changes[0].thresholds, {
+      positiveSpeechThreshold: 0.6,
+      negativeSpeechThreshold: 0.4,
+      calibrating: true,
+    })
+    assert.strictEqual(changes[1].index, 2)
+    // capped at maxPositiveSpeechThreshold, keeping the configured gap
+    assert.include(changes[1].thresholds, {
+      positiveSpeechThreshold: 0.9,
+      negativeSpeechThreshold: 0.7,
+      calibrating: false,
+    })
+    assert.closeTo(changes[1].thresholds.noiseFloorDb, -40, 0.01)
+    assert.isFalse(
+      events.some(
+        (e) => e.msg === vad.Message.SpeechStart && e.segment.start >= 2
+      )
+    )
+  })
+
+  it("stays within the bounds and recalibrates after a pause", async function () {
+    const { frameProcessor, modelFunc } = create({
+      adaptiveThresholds: true,
+      minPositiveSpeechThreshold: 0.3,
+    })
+    let events = await run(frameProcessor, modelFunc, [0.05, 0.05, 0.05])
+    let changes = events.filter((e) => e.msg === vad.Message.ThresholdsChanged)
+    assert.include(changes.at(-1).thresholds, {
+      positiveSpeechThreshold: 0.3,
+      negativeSpeechThreshold: 0.1,
+      calibrating: false,
+    })
+
+    frameProcessor.pause(() => {})
+    frameProcessor.resume()
+    events = await run(frameProcessor, modelFunc, [0.05])
+    changes = events.filter((e) => e.msg === vad.Message.ThresholdsChanged)
+    assert.strictEqual(changes.length, 1)
+    assert.include(changes[0].thresholds, {
+      positiveSpeechThreshold: 0.6,
+      calibrating: true,
+    })
+  })
+})
+
+describe("frame processor smoothing", function () {
+  async function run(smoothing, probabilities) {
+    const { modelFunc, resetFunc, options } = getOptions({
+      preSpeechPadFrames: 0,
+      minSpeechFrames: 1,
+      redemptionFrames: 1,
+      smoothing,
+    })
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    const events = []
+    for (let i = 0; i < probabilities.length; i++) {
+      const isSpeech = probabilities[i]
+      modelFunc.returnValue = { isSpeech, notSpeech: 1 - isSpeech }
+      await frameProcessor.process(new Float32Array([i]), (event) =>
+        events.push(event)
+      )
+    }
+    return events
+  }
+
+  const smoothed = (events) =>
+    events
+      .filter((e) => e.msg === vad.Message.FrameProcessed)
+      .map((e) => e.smoothedProbs.isSpeech)
+
+  const starts = (events) =>
+    events.filter((e) => e.msg === vad.Message.SpeechStart).length
+
+  // a single-frame spike
+  const spike = [0.1, 0.1, 0.9, 0.1, 0.1]
+
+  it("decides on the raw probabilities by default", async function () {
+    const events = await run(undefined, spike)
+    assert.deepEqual(smoothed(events), spike)
+    assert.strictEqual(starts(events), 1)
+  })
+
+  it("reports raw and smoothed probabilities", async function () {
+    const events = await run({ type: "ema", alpha: 0.5 }, spike)
+    const frames = events.filter((e) => e.msg === vad.Message.FrameProcessed)
+    assert.deepEqual(
+      frames.map((e) => e.probs.isSpeech),
+      spike
+    )
+    assert.deepEqual(smoothed(events), [0.1, 0.1, 0.5, 0.3, 0.2])
+    assert.closeTo(frames[2].smoothedProbs.notSpeech, 0.5, 1e-9)
+    assert.strictEqual(starts(events), 0)
+  })
+
+  it("takes the median of the last frames", async function () {
+    const events = await run({ type: "median", frames: 3 }, [
+      ...spike,
+      0.9,
+      0.9,
+    ])
+    assert.deepEqual(smoothed(events), [0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.9])
+    assert.strictEqual(starts(events), 1)
+  })
+
+  it("only switches after the minimum on and off frames", async function () {
+    const probabilities = [0.1, 0.9, 0.1, 0.9, 0.9, 0.1, 0.9, 0.1, 0.1]
+    const events = await run(
+      { type: "hysteresis", minOnFrames: 2, minOffFrames: 2 },
+      probabilities
+    )
+    assert.deepEqual(
+      smoothed(events),
+      [0.1, 0.1, 0.1, 0.1, 0.9, 0.9, 0.9, 0.9, 0.1]
+    )
+    const speechEnd = events.find((e) => e.msg === vad.Message.SpeechEnd)
+    assert.deepEqual(speechEnd.segment, {
+      paddedStart: 4,
+      start: 4,
+      end: 8,
+      paddedEnd: 9,
+    })
+  })
+
+  it("reports invalid smoothing options", function () {
+    assert.throws(
+      () =>
+        vad.validateRealTimeVADOptions({
+          strict: true,
+          smoothing: { type: "median", frames: 0 },
+        }),
+      vad.VADConfigError,
+      /smoothing\.frames/
+    )
+  })
+})
+
+describe("frame processor energy gate", function () {
+  async function run(overrides, frames) {
+    const { modelFunc, resetFunc, options } = getOptions({
+      preSpeechPadFrames: 0,
+      minSpeechFrames: 1,
+      redemptionFrames: 1,
+      ...overrides,
+    })
+    returnNotSpeech(modelFunc, options.negativeSpeechThreshold)
+    const frameProcessor = new vad.FrameProcessor(modelFunc, resetFunc, options)
+    frameProcessor.resume()
+    resetFunc.resetHistory()
+    const processed = []
+    for (const frame of frames) {
+      await frameProcessor.process(frame, (event) => {
+        if (event.msg === vad.Message.FrameProcessed) processed.push(event)
+      })
+    }
+    return { frameProcessor, modelFunc, resetFunc, processed }
+  }
+
+  const silence = new Float32Array(4)
+  const sound = new Float32Array([0.1, -0.1, 0.1, -0.1])
+  const frames = [sound, silence, silence, silence, silence, sound, silence]
+
+  it("runs the model on every frame by default", async function () {
+    const { modelFunc, processed } = await run({}, frames)
+    assert.strictEqual(modelFunc.callCount, frames.length)
+    assert.isFalse(processed.some((e) => e.skipped))
+  })
+
+  it("skips the model after the quiet frames and resets it on sound", async function () {
+    // 192ms: two frames of 96ms still go through the model
+    const { frameProcessor, modelFunc, resetFunc, processed } = await run(
+      { energyGateDb: -60, energyGateMs: 192 },
+      frames
+    )
+    assert.deepEqual(
+      processed.map((e) => e.skipped),
+      [false, false, false, true, true, false, false]
+    )
+    assert.strictEqual(modelFunc.callCount, 5)
+    assert.strictEqual(resetFunc.callCount, 1)
+    assert.deepEqual(processed[3].probs, { isSpeech: 0, notSpeech: 1 })
+    assert.strictEqual(frameProcessor.skippedFrames, 2)
+  })
+})
@@ -0,0 +1,110 @@
+const vad = require("@ricky0123/vad-node")
+const wav = require("wav-decoder")
+const { audioSamplePath } = require("./utils")
+const fs = require("fs")
+const { assert } = require("chai")
+
+function loadAudio(audioPath) {
+  let buffer = fs.readFileSync(audioPath)
+  let result = wav.decode.sync(buffer)
+  return [result.channelData[0], result.sampleRate]
+}
+
+async function collectSegments(myvad, audioData) {
+  const starts = []
+  for await (const { timing } of myvad.segments([audioData])) {
+    starts.push(timing.start.ms)
+  }
+  return starts
+}
+
+describe("vad model registry", function () {
+  const modelPath = require.resolve(
+    "@ricky0123/vad-node/dist/silero_vad_v5.onnx"
+  )
+
+  it("has the built-in models", function () {
+    assert.includeMembers(vad.getRegisteredModels(), ["v5", "legacy"])
+    assert.deepEqual(vad.getModelDescriptor("v5").state[0].shape, [2, 1, 128])
+    assert.equal(vad.getDefaultRealTimeVADOptions("legacy").frameSamples, 1536)
+  })
+
+  it("runs a registered model", async function () {
+    const { fetcher, ...v5 } = vad.getModelDescriptor("v5")
+    vad.registerModel("test-v5", {
+      ...v5,
+      frameProcessorOptions: {
+        ...v5.frameProcessorOptions,
+        redemptionFrames: 12,
+      },
+    })
+    assert.equal(
+      vad.getDefaultRealTimeVADOptions("test-v5").redemptionFrames,
+      12
+    )
+    assert.throws(() => vad.registerModel("test-v5", v5), /already registered/)
+
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const builtin = await vad.RealTimeVAD.new({ sampleRate })
+    const custom = await vad.RealTimeVAD.new({
+      sampleRate,
+      model: "test-v5",
+      modelPath,
+      redemptionFrames: 24,
+    })
+    assert.deepEqual(
+      await collectSegments(custom, audioData),
+      await collectSegments(builtin, audioData)
+    )
+
+    // the model has no default location
+    try {
+      await vad.RealTimeVAD.new({ model: "test-v5" })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.ModelLoadError)
+    }
+  })
+
+  it("batches the state tensors of each model", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const single = await vad.RealTimeVAD.new({ sampleRate, model: "legacy" })
+    const expected = await collectSegments(single, audioData)
+
+    const pool = new vad.VADSessionPool({ maxBatchSize: 4 })
+    const vads = await Promise.all(
+      [0, 1].map(() =>
+        vad.RealTimeVAD.new({ sampleRate, model: "legacy", sessionPool: pool })
+      )
+    )
+    const results = await Promise.all(
+      vads.map((myvad) => collectSegments(myvad, audioData))
+    )
+    assert.deepEqual(results, [expected, expected])
+    assert.isAbove(pool.batchStats.frames, pool.batchStats.batches)
+    await pool.dispose()
+  })
+
+  it("rejects unknown models and invalid descriptors", async function () {
+    assert.throws(
+      () => vad.getModelDescriptor("nope"),
+      /Unknown VAD model "nope"/
+    )
+    const v5 = vad.getModelDescriptor("v5")
+    assert.throws(
+      () =>
+        vad.registerModel("test-bad", {
+          ...v5,
+          state: [
+            {
+              input: "state",
+              output: "stateN",
+              shape: [2, 3, 128],
+              batchAxis: 1,
+            },
+          ],
+        }),
+      /batch dimension/
+    )
+  })
+})
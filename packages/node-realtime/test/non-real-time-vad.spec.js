@@ -34,3 +34,77 @@ describe("nonrealtime vad api", function () {
     assert.isTrue(3600 <= end && end <= 4600, `Unexpected "end" value: ${end}`)
   })
 })
+
+describe("nonrealtime vad timing", function () {
+  const modelPath = require.resolve(
+    "@ricky0123/vad-node/dist/silero_vad_legacy.onnx"
+  )
+  const modelFetcher = async () => fs.readFileSync(modelPath).buffer
+
+  it("reports the start and end of the returned audio", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const run = async (options) => {
+      const myvad = await vad.NonRealTimeVAD.new({ modelFetcher, ...options })
+      const segments = []
+      for await (const segment of myvad.run(audioData, sampleRate)) {
+        segments.push(segment)
+      }
+      for (const { audio, start, end } of segments) {
+        assert.equal(end - start, audio.length / 16)
+      }
+      return segments
+    }
+
+    const forced = await run({ maxSpeechMs: 500 })
+    assert.isAbove(forced.length, 1)
+    assert.isTrue(forced[0].forced)
+    // a forced split cuts the audio without gap
+    assert.equal(forced[1].start, forced[0].end)
+
+    // trailing silence trimmed by the post-speech padding
+    const [untrimmed] = await run({})
+    const [trimmed] = await run({ postSpeechPadFrames: 1 })
+    assert.equal(trimmed.start, untrimmed.start)
+    assert.isBelow(trimmed.end, untrimmed.end)
+  })
+
+  it("emits the segments it yields, and its progress", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const myvad = await vad.NonRealTimeVAD.new({
+      modelFetcher,
+      maxSpeechMs: 500,
+    })
+    const starts = []
+    const ends = []
+    const progress = []
+    let frames = 0
+    myvad.on("frameProcessed", () => frames++)
+    myvad.on("speechStart", (start) => starts.push(start))
+    myvad.on("speechEnd", (speech) => ends.push(speech))
+    myvad.on("progress", (processed, total) =>
+      progress.push([processed, total])
+    )
+    const segments = []
+    for await (const segment of myvad.run(audioData, sampleRate)) {
+      // emitted before it is yielded
+      assert.strictEqual(ends.at(-1), segment)
+      segments.push(segment)
+    }
+    assert.isAbove(segments.length, 1)
+    assert.deepEqual(ends, segments)
+    // forced splits start the next segment with a speechStart too
+    assert.isTrue(segments[0].forced)
+    assert.deepEqual(
+      starts,
+      segments.map(({ start }) => start)
+    )
+
+    // one progress event per frame of 96ms
+    const total = (audioData.length / sampleRate) * 1000
+    assert.lengthOf(progress, frames)
+    progress.forEach(([processed, reported], i) => {
+      assert.equal(processed, Math.min((i + 1) * 96, total))
+      assert.equal(reported, total)
+    })
+  })
+})
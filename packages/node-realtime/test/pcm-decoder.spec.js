@@ -0,0 +1,58 @@
+const vad = require("@ricky0123/vad-node")
+const { assert } = require("chai")
+
+function decodeAll(format, buffer, chunkSize) {
+  const decoder = new vad.PCMDecoder(format)
+  const out = []
+  for (let i = 0; i < buffer.length; i += chunkSize) {
+    out.push(...decoder.decode(buffer.subarray(i, i + chunkSize)))
+  }
+  return out
+}
+
+describe("PCMDecoder", function () {
+  it("decodes s16le across odd chunk boundaries", function () {
+    const buffer = Buffer.alloc(8)
+    ;[0, 16384, -16384, -32768].forEach((v, i) => buffer.writeInt16LE(v, i * 2))
+    assert.deepEqual(decodeAll("s16le", buffer, 3), [0, 0.5, -0.5, -1])
+  })
+
+  it("decodes s24le and s32le", function () {
+    const s24 = Buffer.alloc(6)
+    s24.writeIntLE(4194304, 0, 3)
+    s24.writeIntLE(-8388608, 3, 3)
+    assert.deepEqual(decodeAll("s24le", s24, 4), [0.5, -1])
+
+    const s32 = Buffer.alloc(8)
+    s32.writeInt32LE(1073741824, 0)
+    s32.writeInt32LE(-2147483648, 4)
+    assert.deepEqual(decodeAll("s32le", s32, 5), [0.5, -1])
+  })
+
+  it("decodes f32le and u8", function () {
+    const f32 = Buffer.from(new Float32Array([0.25, -0.75]).buffer)
+    assert.deepEqual(decodeAll("f32le", f32, 3), [0.25, -0.75])
+    assert.deepEqual(decodeAll("u8", Buffer.from([128, 0, 192]), 2), [0, -1, 0.5])
+  })
+
+  it("decodes G.711 mu-law and A-law", function () {
+    // 0xff is the mu-law zero, 0x80/0x00 its extremes
+    assert.deepEqual(
+      decodeAll("mulaw", Buffer.from([0xff, 0x80, 0x00]), 1),
+      [0, 32124 / 32768, -32124 / 32768]
+    )
+    // 0xd5/0x55 are the smallest A-law magnitudes, 0xaa/0x2a its extremes
+    assert.deepEqual(
+      decodeAll("alaw", Buffer.from([0xd5, 0x55, 0xaa, 0x2a]), 1),
+      [8 / 32768, -8 / 32768, 32256 / 32768, -32256 / 32768]
+    )
+  })
+
+  it("holds back incomplete samples until the next chunk", function () {
+    const decoder = new vad.PCMDecoder("s16le")
+    assert.equal(decoder.decode(Buffer.from([0x00])).length, 0)
+    assert.equal(decoder.pendingBytes, 1)
+    assert.deepEqual([...decoder.decode(Buffer.from([0x40]))], [0.5])
+    assert.equal(decoder.pendingBytes, 0)
+  })
+})
@@ -0,0 +1,69 @@
+const vad = require("@ricky0123/vad-node")
+const wav = require("wav-decoder")
+const { audioSamplePath } = require("./utils")
+const fs = require("fs")
+const { Readable, Writable } = require("stream")
+const { pipeline } = require("stream/promises")
+const { assert } = require("chai")
+
+function loadAudio(audioPath) {
+  let buffer = fs.readFileSync(audioPath)
+  let result = wav.decode.sync(buffer)
+  return [result.channelData[0], result.sampleRate]
+}
+
+describe("realtime vad stream", function () {
+  it("emits speech events from piped f32le pcm", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const pcm = Buffer.from(audioData.buffer)
+    // odd chunk size so samples straddle chunk boundaries
+    const chunks = []
+    for (let i = 0; i < pcm.length; i += 1001) {
+      chunks.push(pcm.subarray(i, i + 1001))
+    }
+
+    const events = []
+    const vadStream = await vad.RealTimeVADStream.new({ sampleRate })
+    await pipeline(
+      Readable.from(chunks),
+      vadStream,
+      new Writable({
+        objectMode: true,
+        write(event, _encoding, callback) {
+          events.push(event)
+          callback()
+        },
+      })
+    )
+
+    assert.deepEqual(
+      events.map((event) => event.type),
+      ["speech-start", "speech-real-start", "speech-end"]
+    )
+    assert.instanceOf(events[2].audio, Float32Array)
+    assert.isAbove(events[2].audio.length, 0)
+  })
+
+  it("leaves a wrapped vad usable once the stream has closed", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const pcm = Buffer.from(audioData.buffer)
+    const myvad = await vad.RealTimeVAD.new({ sampleRate })
+    myvad.start()
+    const vadStream = new vad.RealTimeVADStream(myvad)
+    const events = []
+    vadStream.on("data", (event) => events.push(event.type))
+    // the stream destroys itself once both sides have ended
+    const closed = new Promise((resolve) => vadStream.on("close", resolve))
+    vadStream.end(pcm)
+    await closed
+    assert.include(events, "speech-end")
+
+    // still started, with its model
+    const segments = []
+    for await (const segment of myvad.segments([audioData])) {
+      segments.push(segment)
+    }
+    assert.equal(segments.length, 1)
+    myvad.destroy()
+  })
+})
@@ -0,0 +1,641 @@
+const vad = require("@ricky0123/vad-node")
+const wav = require("wav-decoder")
+const { audioSamplePath } = require("./utils")
+const fs = require("fs")
+const { Readable } = require("stream")
+const { assert } = require("chai")
+
+function loadAudio(audioPath) {
+  let buffer = fs.readFileSync(audioPath)
+  let result = wav.decode.sync(buffer)
+  return [result.channelData[0], result.sampleRate]
+}
+
+function chunked(audioData, chunkSize) {
+  const chunks = []
+  for (let i = 0; i < audioData.length; i += chunkSize) {
+    chunks.push(audioData.subarray(i, i + chunkSize))
+  }
+  return chunks
+}
+
+describe("realtime vad api", function () {
+  it("yields speech segments from an async source", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const myvad = await vad.RealTimeVAD.new({ sampleRate })
+    const segments = []
+    for await (const segment of myvad.segments(
+      Readable.from(chunked(audioData, 4410))
+    )) {
+      segments.push(segment)
+    }
+    // true endpoint are about 2.1 sec to 3.2 sec
+    assert.equal(segments.length, 1)
+    const { audio, timing } = segments[0]
+    assert.isTrue(1900 <= timing.start.ms && timing.start.ms <= 2400)
+    assert.equal(
+      audio.length,
+      timing.paddedEnd.modelSample - timing.paddedStart.modelSample
+    )
+  })
+
+  it("runs the model at 8000Hz with modelSampleRate", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    for (const model of ["v5", "legacy"]) {
+      const myvad = await vad.RealTimeVAD.new({
+        sampleRate,
+        model,
+        modelSampleRate: 8000,
+      })
+      const segments = []
+      for await (const segment of myvad.segments(
+        Readable.from(chunked(audioData, 4410))
+      )) {
+        segments.push(segment)
+      }
+      assert.equal(segments.length, 1)
+      const { audio, timing } = segments[0]
+      assert.isTrue(1900 <= timing.start.ms && timing.start.ms <= 2400)
+      assert.equal(
+        audio.length,
+        timing.paddedEnd.modelSample - timing.paddedStart.modelSample
+      )
+    }
+  })
+
+  it("cuts the same frames whatever the chunk size", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const framesFor = async (chunkSize) => {
+      const myvad = await vad.RealTimeVAD.new({ sampleRate })
+      const frames = []
+      myvad.on("frameProcessed", (probs, frame) => frames.push(frame.slice()))
+      myvad.start()
+      for (const chunk of chunked(audioData, chunkSize)) {
+        await myvad.processAudio(chunk)
+      }
+      return frames
+    }
+    const expected = await framesFor(audioData.length)
+    assert.isAbove(expected.length, 100)
+    assert.deepEqual(await framesFor(4410), expected)
+    assert.deepEqual(await framesFor(333), expected)
+  })
+
+  it("processes overlapping processAudio calls in order", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const chunks = chunked(audioData, 4410)
+
+    const sequential = await vad.RealTimeVAD.new({ sampleRate })
+    const expected = []
+    sequential.on("frameProcessed", (probs) => expected.push(probs.isSpeech))
+    sequential.start()
+    for (const chunk of chunks) {
+      await sequential.processAudio(chunk)
+    }
+
+    const concurrent = await vad.RealTimeVAD.new({ sampleRate })
+    const actual = []
+    concurrent.on("frameProcessed", (probs) => actual.push(probs.isSpeech))
+    concurrent.start()
+    await Promise.all(chunks.map((chunk) => concurrent.processAudio(chunk)))
+
+    assert.deepEqual(actual, expected)
+  })
+
+  it("drops the oldest waiting chunks when the queue is full", async function () {
+    const overflows = []
+    const myvad = await vad.RealTimeVAD.new({
+      maxQueueLength: 2,
+      overflowPolicy: "drop-oldest",
+      onOverflow: (overflow) => overflows.push(overflow),
+    })
+    let frames = 0
+    myvad.on("frameProcessed", () => frames++)
+    myvad.start()
+    const chunks = [0, 1, 2, 3, 4].map(() => new Float32Array(512))
+    await Promise.all(chunks.map((chunk) => myvad.processAudio(chunk)))
+
+    // the first chunk starts right away, 1 and 2 are dropped for 3 and 4
+    assert.equal(frames, 3)
+    assert.deepEqual(
+      overflows.map(({ dropped }) => chunks.indexOf(dropped)),
+      [1, 2]
+    )
+    assert.equal(overflows[0].queueLength, 2)
+  })
+
+  it("rejects chunks beyond the queue with the error policy", async function () {
+    const myvad = await vad.RealTimeVAD.new({
+      maxQueueLength: 1,
+      overflowPolicy: "error",
+    })
+    const overflows = []
+    myvad.on("overflow", (overflow) => overflows.push(overflow))
+    myvad.start()
+    const results = await Promise.allSettled(
+      [0, 1, 2].map(() => myvad.processAudio(new Float32Array(512)))
+    )
+    assert.deepEqual(
+      results.map((r) => r.status),
+      ["fulfilled", "fulfilled", "rejected"]
+    )
+    assert.instanceOf(results[2].reason, vad.QueueOverflowError)
+    assert.equal(overflows.length, 1)
+  })
+
+  it("blocks callers until the queue has room", async function () {
+    const myvad = await vad.RealTimeVAD.new({
+      maxQueueLength: 1,
+      overflowPolicy: "block",
+    })
+    let frames = 0
+    myvad.on("frameProcessed", () => frames++)
+    const overflows = []
+    myvad.on("overflow", (overflow) => overflows.push(overflow))
+    myvad.start()
+    const pending = [0, 1, 2, 3].map(() =>
+      myvad.processAudio(new Float32Array(512))
+    )
+    assert.equal(myvad.queueLength, 3)
+    await Promise.all(pending)
+    assert.equal(frames, 4)
+    assert.equal(overflows.length, 2)
+    assert.isTrue(overflows.every(({ dropped }) => dropped === null))
+  })
+})
+
+describe("realtime vad model source", function () {
+  const modelPath = require.resolve(
+    "@ricky0123/vad-node/dist/silero_vad_v5.onnx"
+  )
+
+  it("loads the model from modelPath and modelBuffer", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    for (const source of [
+      { modelPath },
+      { modelBuffer: fs.readFileSync(modelPath) },
+    ]) {
+      const myvad = await vad.RealTimeVAD.new({ sampleRate, ...source })
+      const segments = []
+      for await (const segment of myvad.segments([audioData])) {
+        segments.push(segment)
+      }
+      assert.equal(segments.length, 1)
+      myvad.destroy()
+    }
+  })
+
+  it("shares sessions only between identical models", async function () {
+    const pool = new vad.VADSessionPool()
+    const modelBuffer = fs.readFileSync(modelPath)
+    const vads = [
+      await vad.RealTimeVAD.new({ sessionPool: pool }),
+      await vad.RealTimeVAD.new({ sessionPool: pool, modelPath }),
+      await vad.RealTimeVAD.new({ sessionPool: pool, modelPath }),
+      await vad.RealTimeVAD.new({ sessionPool: pool, modelBuffer }),
+      await vad.RealTimeVAD.new({
+        sessionPool: pool,
+        modelBuffer: Buffer.from(modelBuffer),
+      }),
+    ]
+    assert.equal(pool.sessionCount, 3)
+    for (const myvad of vads) myvad.destroy()
+    await pool.dispose()
+  })
+
+  it("reports a missing model file", async function () {
+    try {
+      await vad.RealTimeVAD.new({ modelPath: "/nonexistent/model.onnx" })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.ModelLoadError)
+      assert.include(e.message, "not found: /nonexistent/model.onnx")
+    }
+  })
+
+  it("reports data that is not an ONNX model", async function () {
+    try {
+      await vad.RealTimeVAD.new({
+        modelFetcher: async () => new TextEncoder().encode("<html>").buffer,
+      })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.ModelLoadError)
+      assert.include(e.message, "not a valid ONNX model")
+    }
+  })
+
+  it("rejects more than one model source", async function () {
+    try {
+      await vad.RealTimeVAD.new({ modelPath, modelBuffer: new ArrayBuffer(1) })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.include(e.message, "Only one of modelPath")
+    }
+  })
+})
+
+describe("realtime vad updateOptions", function () {
+  async function run(chunks, update) {
+    const [, sampleRate] = loadAudio(audioSamplePath)
+    const myvad = await vad.RealTimeVAD.new({ sampleRate })
+    const events = []
+    const probs = []
+    myvad.on("frameProcessed", (p) => probs.push(p.isSpeech))
+    myvad.on("speechEnd", () => events.push("speechEnd"))
+    myvad.on("vadMisfire", () => events.push("vadMisfire"))
+    myvad.on("optionsChanged", (changes) =>
+      events.push({ frame: probs.length, changes })
+    )
+    myvad.start()
+    const pending = chunks.map((chunk, i) =>
+      i === 10 && update
+        ? Promise.all([myvad.updateOptions(update), myvad.processAudio(chunk)])
+        : myvad.processAudio(chunk)
+    )
+    await Promise.all(pending)
+    await myvad.flush()
+    return { events, probs }
+  }
+
+  it("applies changes after the queued chunks, keeping the model state", async function () {
+    const [audioData] = loadAudio(audioSamplePath)
+    const chunks = chunked(audioData, 4410)
+    const before = await run(chunks.slice(0, 10))
+    const unchanged = await run(chunks)
+    const changed = await run(chunks, { minSpeechFrames: 1000 })
+
+    assert.deepEqual(unchanged.events, ["speechEnd"])
+    assert.deepEqual(changed.events, [
+      { frame: before.probs.length, changes: { minSpeechFrames: 1000 } },
+      "vadMisfire",
+    ])
+    assert.deepEqual(changed.probs, unchanged.probs)
+  })
+
+  it("rejects options that cannot change while running", async function () {
+    const myvad = await vad.RealTimeVAD.new({ sampleRate: 16000 })
+    try {
+      await myvad.updateOptions({
+        frameSamples: 1024,
+        sampleRate: 8000,
+        positiveSpeechThreshold: 0.6,
+      })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.OptionsUpdateError)
+      assert.deepEqual(e.options, ["frameSamples", "sampleRate"])
+    }
+    // unchanged values are accepted
+    await myvad.updateOptions({ sampleRate: 16000, redemptionFrames: 4 })
+  })
+
+  it("compares object options structurally", async function () {
+    const myvad = await vad.RealTimeVAD.new({
+      channels: 2,
+      channelStrategy: { select: 0 },
+    })
+    await myvad.updateOptions({ channelStrategy: { select: 0 } })
+    try {
+      await myvad.updateOptions({ channelStrategy: { select: 1 } })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.OptionsUpdateError)
+    }
+  })
+
+  it("rejects invalid live values without strict", async function () {
+    const myvad = await vad.RealTimeVAD.new({ sampleRate: 16000 })
+    const changes = []
+    myvad.on("optionsChanged", (change) => changes.push(change))
+    for (const update of [
+      { positiveSpeechThreshold: 2 },
+      { negativeSpeechThreshold: 0.9, positiveSpeechThreshold: 0.6 },
+    ]) {
+      try {
+        await myvad.updateOptions(update)
+        assert.fail("expected an error")
+      } catch (e) {
+        assert.instanceOf(e, vad.VADConfigError)
+      }
+    }
+    assert.deepEqual(changes, [])
+    await myvad.updateOptions({ positiveSpeechThreshold: 0.6 })
+    assert.deepEqual(changes, [{ positiveSpeechThreshold: 0.6 }])
+  })
+})
+
+describe("realtime vad strict options", function () {
+  it("lists every invalid option in a VADConfigError", async function () {
+    try {
+      await vad.RealTimeVAD.new({
+        strict: true,
+        sampleRate: 0,
+        model: "nope",
+        positiveSpeechThreshold: 0.2,
+        negativeSpeechThreshold: 0.5,
+        redemptionFrames: -1,
+      })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.VADConfigError)
+      const fields = e.violations.map((v) => v.field).sort()
+      assert.deepEqual(fields, [
+        "model",
+        "negativeSpeechThreshold",
+        "redemptionFrames",
+        "sampleRate",
+      ])
+      for (const field of fields) {
+        assert.include(e.message, field)
+      }
+    }
+  })
+
+  it("lists invalid audio input and queue options", function () {
+    try {
+      vad.validateRealTimeVADOptions({
+        strict: true,
+        sampleRate: 16000,
+        channels: 1.5,
+        channelStrategy: "loudest",
+        inputFormat: "f64le",
+        resamplerQuality: "best",
+        maxQueueLength: -1,
+        overflowPolicy: "drop",
+      })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.VADConfigError)
+      assert.deepEqual(e.violations.map((v) => v.field).sort(), [
+        "channelStrategy",
+        "channels",
+        "inputFormat",
+        "maxQueueLength",
+        "overflowPolicy",
+        "resamplerQuality",
+      ])
+    }
+    assert.throws(
+      () =>
+        vad.validateRealTimeVADOptions({
+          strict: true,
+          sampleRate: 16000,
+          channels: 2,
+          channelStrategy: { select: 2 },
+        }),
+      vad.VADConfigError,
+      /channel 2 does not exist in 2-channel input/
+    )
+    const options = vad.validateRealTimeVADOptions({
+      strict: true,
+      sampleRate: 16000,
+      channels: 2,
+      channelStrategy: { select: 1 },
+      maxQueueLength: 0,
+      overflowPolicy: "drop-oldest",
+    })
+    assert.equal(options.maxQueueLength, 0)
+  })
+
+  it("returns frozen options completed with defaults", function () {
+    const options = vad.validateRealTimeVADOptions({
+      strict: true,
+      sampleRate: 44100,
+      redemptionFrames: 4,
+    })
+    assert.isTrue(Object.isFrozen(options))
+    assert.equal(options.redemptionFrames, 4)
+    assert.equal(options.model, "v5")
+    assert.equal(options.frameSamples, 512)
+    assert.equal(options.maxSpeechFrames, Infinity)
+    assert.throws(
+      () => vad.validateRealTimeVADOptions({ strict: true, sampleRate: NaN }),
+      vad.VADConfigError,
+      /sampleRate/
+    )
+  })
+
+  it("validates updates in strict mode", async function () {
+    const myvad = await vad.RealTimeVAD.new({ sampleRate: 16000, strict: true })
+    try {
+      await myvad.updateOptions({ positiveSpeechThreshold: 2 })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.VADConfigError)
+      assert.deepEqual(
+        e.violations.map((v) => v.field),
+        ["positiveSpeechThreshold"]
+      )
+    }
+  })
+})
+
+describe("realtime vad energy gate", function () {
+  it("skips the model during digital silence and reports it in stats", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const audio = new Float32Array(sampleRate * 2 + audioData.length)
+    audio.set(audioData, sampleRate * 2)
+
+    const run = async (options) => {
+      const myvad = await vad.RealTimeVAD.new({ sampleRate, ...options })
+      const skipped = []
+      myvad.on("frameProcessed", (probs, frame, timing, smoothed, skip) => {
+        if (skip) skipped.push(probs.isSpeech)
+      })
+      const segments = []
+      for await (const segment of myvad.segments(
+        Readable.from(chunked(audio, 4410))
+      )) {
+        segments.push(segment)
+      }
+      return { stats: myvad.stats, skipped, segments }
+    }
+
+    const ungated = await run({})
+    const gated = await run({ energyGateDb: -60 })
+    assert.equal(ungated.stats.skippedFrames, 0)
+    assert.equal(ungated.stats.skippedFraction, 0)
+    assert.equal(gated.stats.frames, ungated.stats.frames)
+    assert.equal(gated.stats.skippedFrames, gated.skipped.length)
+    assert.isAbove(gated.stats.skippedFraction, 0.2)
+    assert.isTrue(gated.skipped.every((p) => p === 0))
+    assert.equal(gated.segments.length, 1)
+    // the model restarts from a fresh state after the silence
+    const [gatedTiming, ungatedTiming] = [gated, ungated].map(
+      (r) => r.segments[0].timing
+    )
+    assert.deepEqual(gatedTiming.start, ungatedTiming.start)
+    assert.closeTo(gatedTiming.end.ms, ungatedTiming.end.ms, 100)
+  })
+})
+
+describe("realtime vad state", function () {
+  async function record(myvad) {
+    const events = []
+    myvad.on("frameProcessed", (probs, frame, timing) =>
+      events.push(["frameProcessed", probs.isSpeech, timing.start.ms])
+    )
+    myvad.on("speechStart", (timing) => events.push(["speechStart", timing]))
+    myvad.on("speechRealStart", (timing) =>
+      events.push(["speechRealStart", timing])
+    )
+    myvad.on("speechEnd", (audio, timing) =>
+      events.push(["speechEnd", Array.from(audio), timing])
+    )
+    return events
+  }
+
+  it("resumes in another instance with the same events", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    // the second half starts in the middle of the speech segment
+    const chunks = chunked(audioData, 4000)
+    const half = Math.floor((2.6 * sampleRate) / 4000)
+    for (const model of ["v5", "legacy"]) {
+      const options = {
+        sampleRate,
+        model,
+        resamplerQuality: "medium",
+        smoothing: { type: "ema", alpha: 0.5 },
+      }
+      const whole = await vad.RealTimeVAD.new(options)
+      const expected = await record(whole)
+      whole.start()
+      for (const chunk of chunks.slice(0, half)) await whole.processAudio(chunk)
+      const split = expected.length
+      for (const chunk of chunks.slice(half)) await whole.processAudio(chunk)
+      await whole.flush()
+
+      const first = await vad.RealTimeVAD.new(options)
+      first.start()
+      for (const chunk of chunks.slice(0, half)) await first.processAudio(chunk)
+      const state = JSON.parse(JSON.stringify(await first.getState()))
+      assert.equal(state.version, vad.VAD_STATE_VERSION)
+      assert.isTrue(state.frameProcessor.speaking)
+
+      const second = await vad.RealTimeVAD.new(options)
+      const events = await record(second)
+      await second.restoreState(state)
+      for (const chunk of chunks.slice(half)) await second.processAudio(chunk)
+      await second.flush()
+      assert.deepEqual(events, expected.slice(split))
+      assert.include(
+        events.map(([name]) => name),
+        "speechEnd"
+      )
+    }
+  })
+
+  it("rejects a state saved with other options", async function () {
+    const myvad = await vad.RealTimeVAD.new({ sampleRate: 16000 })
+    const state = await myvad.getState()
+    const other = await vad.RealTimeVAD.new({ sampleRate: 8000 })
+    try {
+      await other.restoreState(state)
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.match(e.message, /sampleRate 16000/)
+    }
+    try {
+      await myvad.restoreState({ ...state, version: 0 })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.match(e.message, /version 0/)
+    }
+  })
+})
+
+describe("realtime vad lifecycle", function () {
+  it("pauses after the chunk being processed", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const run = async (pause) => {
+      const myvad = await vad.RealTimeVAD.new({ sampleRate })
+      const events = []
+      myvad.on("frameProcessed", () => events.push("frameProcessed"))
+      myvad.on("speechEnd", () => events.push("speechEnd"))
+      myvad.start()
+      const processing = myvad.processAudio(audioData)
+      if (pause) await myvad.pause()
+      await processing
+      myvad.destroy()
+      return events
+    }
+    const whole = await run(false)
+    const paused = await run(true)
+    assert.deepEqual(paused, whole)
+  })
+
+  it("releases the model once the chunk being processed is done", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const pool = new vad.VADSessionPool()
+    const myvad = await vad.RealTimeVAD.new({ sampleRate, sessionPool: pool })
+    myvad.start()
+    let processed = false
+    myvad.processAudio(audioData).then(() => (processed = true))
+    const waiting = myvad.processAudio(audioData)
+    const destroyed = myvad.destroy()
+    assert.equal(pool.streamCount, 1)
+    await waiting
+    await destroyed
+    assert.isTrue(processed)
+    assert.equal(pool.streamCount, 0)
+    await pool.dispose()
+  })
+})
+
+describe("realtime vad events", function () {
+  it("calls a once listener a single time", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const myvad = await vad.RealTimeVAD.new({ sampleRate })
+    let calls = 0
+    myvad.once("frameProcessed", () => calls++)
+    assert.equal(myvad.listenerCount("frameProcessed"), 1)
+    myvad.start()
+    await myvad.processAudio(audioData)
+    assert.equal(calls, 1)
+    assert.equal(myvad.listenerCount("frameProcessed"), 0)
+    await myvad.destroy()
+  })
+
+  it("stops calling a listener removed with off", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const myvad = await vad.RealTimeVAD.new({ sampleRate })
+    let calls = 0
+    const listener = () => calls++
+    myvad.on("frameProcessed", listener)
+    myvad.start()
+    await myvad.processAudio(audioData.subarray(0, sampleRate))
+    const before = calls
+    assert.isAbove(before, 0)
+    myvad.off("frameProcessed", listener)
+    await myvad.processAudio(audioData.subarray(sampleRate))
+    assert.equal(calls, before)
+    await myvad.destroy()
+  })
+
+  it("calls the callback option before the listeners of each event", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const events = []
+    const myvad = await vad.RealTimeVAD.new({
+      sampleRate,
+      onSpeechStart: () => events.push("callback:speechStart"),
+      onSpeechRealStart: () => events.push("callback:speechRealStart"),
+      onSpeechEnd: () => events.push("callback:speechEnd"),
+    })
+    myvad.on("speechStart", () => events.push("speechStart"))
+    myvad.on("speechRealStart", () => events.push("speechRealStart"))
+    myvad.on("speechEnd", () => events.push("speechEnd"))
+    myvad.start()
+    await myvad.processAudio(audioData)
+    await myvad.flush()
+    assert.deepEqual(events, [
+      "callback:speechStart",
+      "speechStart",
+      "callback:speechRealStart",
+      "speechRealStart",
+      "callback:speechEnd",
+      "speechEnd",
+    ])
+    await myvad.destroy()
+  })
+})
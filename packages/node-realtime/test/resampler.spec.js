@@ -100,3 +100,108 @@ describe("Resampler", function () {
     })
   })
 })
+
+function chirp(sampleRate, seconds, startHz, endHz) {
+  const audio = new Float32Array(Math.round(sampleRate * seconds))
+  const slope = (endHz - startHz) / seconds
+  for (let i = 0; i < audio.length; i++) {
+    const t = i / sampleRate
+    audio[i] = Math.sin(2 * Math.PI * (startHz * t + (slope / 2) * t * t))
+  }
+  return audio
+}
+
+function resample(options, audio, chunkSize) {
+  const resampler = new vad.Resampler({ targetFrameSize: 160, ...options })
+  const frames = []
+  for (let i = 0; i < audio.length; i += chunkSize) {
+    frames.push(...resampler.process(audio.subarray(i, i + chunkSize)))
+  }
+  const output = new Float32Array(frames.length * 160)
+  frames.forEach((frame, i) => output.set(frame, i * 160))
+  return output
+}
+
+// root mean square of `a - b`, leaving out the filter's edges
+function rmsDifference(a, b = new Float32Array(a.length)) {
+  const margin = 200
+  let sum = 0
+  let count = 0
+  for (let i = margin; i < Math.min(a.length, b.length) - margin; i++) {
+    sum += (a[i] - b[i]) ** 2
+    count++
+  }
+  return Math.sqrt(sum / count)
+}
+
+describe("Resampler quality", function () {
+  const rates = [
+    [44100, 16000],
+    [48000, 16000],
+    [22050, 16000],
+    [16000, 8000],
+    [8000, 16000],
+  ]
+  const tolerance = { medium: 0.02, high: 0.001 }
+
+  for (const quality of ["medium", "high"]) {
+    for (const [nativeSampleRate, targetSampleRate] of rates) {
+      it(`matches a reference sweep from ${nativeSampleRate} Hz to ${targetSampleRate} Hz (${quality})`, function () {
+        // up to 80% of the lower Nyquist frequency
+        const endHz = Math.min(nativeSampleRate, targetSampleRate) * 0.4
+        const output = resample(
+          { nativeSampleRate, targetSampleRate, quality },
+          chirp(nativeSampleRate, 2, 50, endHz),
+          4410
+        )
+        const reference = chirp(targetSampleRate, 2, 50, endHz)
+        assert.isBelow(rmsDifference(output, reference), tolerance[quality])
+      })
+    }
+
+    it(`removes frequencies above the target Nyquist frequency (${quality})`, function () {
+      const options = { nativeSampleRate: 44100, targetSampleRate: 16000 }
+      const sweep = chirp(44100, 1, 9000, 20000)
+      assert.isAbove(rmsDifference(resample(options, sweep, 4410)), 0.1)
+      assert.isBelow(
+        rmsDifference(resample({ ...options, quality }, sweep, 4410)),
+        0.001
+      )
+    })
+
+    for (const [nativeSampleRate, targetSampleRate, endHz] of [
+      [44100, 16000, 6000],
+      [8000, 16000, 3000],
+    ]) {
+      it(`gives the same output whatever the chunk size from ${nativeSampleRate} Hz to ${targetSampleRate} Hz (${quality})`, function () {
+        const options = { nativeSampleRate, targetSampleRate, quality }
+        const sweep = chirp(nativeSampleRate, 1, 50, endHz)
+        const whole = resample(options, sweep, sweep.length)
+        assert.deepEqual(resample(options, sweep, 137), whole)
+        assert.deepEqual(resample(options, sweep, 1), whole)
+      })
+    }
+  }
+
+  it("upsamples with medium quality when fast is requested", function () {
+    const options = { nativeSampleRate: 8000, targetSampleRate: 16000 }
+    const sweep = chirp(8000, 1, 50, 3200)
+    assert.deepEqual(
+      resample(options, sweep, 800),
+      resample({ ...options, quality: "medium" }, sweep, 800)
+    )
+  })
+
+  it("rejects unknown qualities", function () {
+    assert.throws(
+      () =>
+        new vad.Resampler({
+          nativeSampleRate: 44100,
+          targetSampleRate: 16000,
+          targetFrameSize: 160,
+          quality: "best",
+        }),
+      /Unknown resampler quality "best"/
+    )
+  })
+})
@@ -0,0 +1,118 @@
+const vad = require("@ricky0123/vad-node")
+const wav = require("wav-decoder")
+const { audioSamplePath } = require("./utils")
+const fs = require("fs")
+const { assert } = require("chai")
+
+function loadAudio(audioPath) {
+  let buffer = fs.readFileSync(audioPath)
+  let result = wav.decode.sync(buffer)
+  return [result.channelData[0], result.sampleRate]
+}
+
+async function collectSegments(myvad, audioData) {
+  const starts = []
+  for await (const { timing } of myvad.segments([audioData])) {
+    starts.push(timing.start.ms)
+  }
+  return starts
+}
+
+describe("vad session pool", function () {
+  it("shares one session between concurrent streams", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const pool = new vad.VADSessionPool()
+    const vads = await Promise.all(
+      [0, 1, 2].map(() => vad.RealTimeVAD.new({ sampleRate, sessionPool: pool }))
+    )
+    assert.equal(pool.sessionCount, 1)
+    assert.equal(pool.streamCount, 3)
+
+    const results = await Promise.all(
+      vads.map((myvad) => collectSegments(myvad, audioData))
+    )
+    assert.deepEqual(results[1], results[0])
+    assert.deepEqual(results[2], results[0])
+    assert.equal(results[0].length, 1)
+
+    vads.forEach((myvad) => myvad.destroy())
+    assert.equal(pool.streamCount, 0)
+    await pool.dispose()
+  })
+
+  it("batches frames from concurrent streams", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const single = await vad.RealTimeVAD.new({ sampleRate })
+    const expected = await collectSegments(single, audioData)
+    single.destroy()
+
+    const pool = new vad.VADSessionPool({ maxBatchSize: 4, maxWaitMs: 20 })
+    const vads = await Promise.all(
+      [0, 1, 2, 3].map(() =>
+        vad.RealTimeVAD.new({ sampleRate, sessionPool: pool })
+      )
+    )
+    const results = await Promise.all(
+      vads.map((myvad) => collectSegments(myvad, audioData))
+    )
+    results.forEach((result) => assert.deepEqual(result, expected))
+
+    const { batches, frames } = pool.batchStats
+    assert.isAbove(batches, 0)
+    assert.isAbove(frames / batches, 1)
+
+    vads.forEach((myvad) => myvad.destroy())
+    await pool.dispose()
+  })
+
+  it("does not wait for streams that have no audio to process", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const pool = new vad.VADSessionPool({ maxBatchSize: 4, maxWaitMs: 100 })
+    const [busy, idle] = await Promise.all(
+      [0, 1].map(() => vad.RealTimeVAD.new({ sampleRate, sessionPool: pool }))
+    )
+    idle.start()
+    const frames = []
+    busy.on("frameProcessed", () => frames.push(Date.now()))
+    busy.start()
+    const started = Date.now()
+    await busy.processAudio(audioData.subarray(0, sampleRate))
+    // about 30 frames, which would take 3 s if each waited for `idle`
+    assert.isAbove(frames.length, 20)
+    assert.isBelow(Date.now() - started, 1000)
+
+    busy.destroy()
+    idle.destroy()
+    await pool.dispose()
+  })
+
+  it("keeps the fresh state of a stream reset while its frame is batched", async function () {
+    const [audioData] = loadAudio(audioSamplePath)
+    const pool = new vad.VADSessionPool({ maxBatchSize: 4 })
+    const model = await pool.acquire("v5", vad.getModelDescriptor("v5").fetcher)
+    const probs = model.process(audioData.slice(40000, 40512))
+    model.reset_state()
+    await probs
+    const { tensors } = model.getState()
+    assert.isTrue(tensors.every((tensor) => tensor.every((x) => x === 0)))
+
+    pool.release(model)
+    await pool.dispose()
+  })
+
+  it("rejects streams beyond maxStreams", async function () {
+    const pool = new vad.VADSessionPool({ maxStreams: 1 })
+    const first = await vad.RealTimeVAD.new({ sessionPool: pool })
+    let error
+    try {
+      await vad.RealTimeVAD.new({ sessionPool: pool })
+    } catch (e) {
+      error = e
+    }
+    assert.instanceOf(error, Error)
+    first.destroy()
+    const second = await vad.RealTimeVAD.new({ sessionPool: pool })
+    second.destroy()
+    await pool.dispose()
+  })
+})
@@ -0,0 +1,262 @@
+const vad = require("@ricky0123/vad-node")
+const wav = require("wav-decoder")
+const { audioSamplePath } = require("./utils")
+const fs = require("fs")
+const { assert } = require("chai")
+
+function loadAudio(audioPath) {
+  let buffer = fs.readFileSync(audioPath)
+  let result = wav.decode.sync(buffer)
+  return [result.channelData[0], result.sampleRate]
+}
+
+function chunked(audioData, chunkSize) {
+  const chunks = []
+  for (let i = 0; i < audioData.length; i += chunkSize) {
+    chunks.push(audioData.slice(i, i + chunkSize))
+  }
+  return chunks
+}
+
+describe("worker realtime vad", function () {
+  this.timeout(20000)
+  let workerPool
+
+  beforeEach(function () {
+    workerPool = new vad.VADWorkerPool({ size: 2 })
+  })
+
+  afterEach(async function () {
+    await workerPool.terminate()
+  })
+
+  it("matches the segments of RealTimeVAD", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const local = await vad.RealTimeVAD.new({ sampleRate })
+    const expected = []
+    for await (const segment of local.segments(chunked(audioData, 4410))) {
+      expected.push(segment)
+    }
+
+    const events = []
+    const myvad = await vad.WorkerRealTimeVAD.new({
+      sampleRate,
+      workerPool,
+      onSpeechStart: () => events.push("callback:speechStart"),
+    })
+    myvad.on("speechStart", () => events.push("speechStart"))
+    myvad.on("speechEnd", () => events.push("speechEnd"))
+    const segments = []
+    for await (const segment of myvad.segments(chunked(audioData, 4410))) {
+      segments.push(segment)
+    }
+    myvad.destroy()
+
+    assert.deepEqual(events, [
+      "callback:speechStart",
+      "speechStart",
+      "speechEnd",
+    ])
+    assert.equal(segments.length, expected.length)
+    assert.deepEqual(segments[0].timing, expected[0].timing)
+    assert.deepEqual(
+      Array.from(segments[0].audio),
+      Array.from(expected[0].audio)
+    )
+  })
+
+  it("copies audio unless transferAudio is set", async function () {
+    const copying = await vad.WorkerRealTimeVAD.new({ workerPool })
+    copying.start()
+    const reused = new Float32Array(1024)
+    await copying.processAudio(reused)
+    assert.equal(reused.length, 1024)
+    copying.destroy()
+  })
+
+  it("transfers whole buffers and copies views", async function () {
+    const myvad = await vad.WorkerRealTimeVAD.new({
+      workerPool,
+      transferAudio: true,
+    })
+    myvad.start()
+    const whole = new Float32Array(1024)
+    await myvad.processAudio(whole)
+    assert.equal(whole.length, 0)
+
+    const backing = new Float32Array(2048)
+    const view = backing.subarray(512, 1536)
+    await myvad.processAudio(view)
+    assert.equal(view.length, 1024)
+    myvad.destroy()
+  })
+
+  it("counts chunks waiting to be processed", async function () {
+    const myvad = await vad.WorkerRealTimeVAD.new({ workerPool })
+    myvad.start()
+    const chunks = [0, 1, 2].map(() =>
+      myvad.processAudio(new Float32Array(512))
+    )
+    assert.equal(myvad.queueLength, 2)
+    await Promise.all(chunks)
+    assert.equal(myvad.queueLength, 0)
+    myvad.destroy()
+  })
+
+  it("moves its state to and from RealTimeVAD", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    // the second half starts in the middle of the speech segment
+    const chunks = chunked(audioData, 4000)
+    const half = Math.floor((2.6 * sampleRate) / 4000)
+    async function finish(myvad) {
+      const segments = []
+      myvad.on("speechEnd", (audio, timing) =>
+        segments.push([Array.from(audio), timing])
+      )
+      for (const chunk of chunks.slice(half)) await myvad.processAudio(chunk)
+      await myvad.flush()
+      return segments
+    }
+
+    const local = await vad.RealTimeVAD.new({ sampleRate })
+    local.start()
+    for (const chunk of chunks.slice(0, half)) await local.processAudio(chunk)
+    const state = await local.getState()
+    const expected = await finish(local)
+    assert.isNotEmpty(expected)
+
+    const restored = await vad.WorkerRealTimeVAD.new({ sampleRate, workerPool })
+    await restored.restoreState(state)
+    assert.deepEqual(await finish(restored), expected)
+    restored.destroy()
+
+    const saved = await vad.WorkerRealTimeVAD.new({ sampleRate, workerPool })
+    saved.start()
+    for (const chunk of chunks.slice(0, half)) await saved.processAudio(chunk)
+    const other = await vad.RealTimeVAD.new({ sampleRate })
+    await other.restoreState(JSON.parse(JSON.stringify(await saved.getState())))
+    assert.deepEqual(await finish(other), expected)
+    saved.destroy()
+  })
+
+  it("resolves pause, reset and destroy once the worker has acted", async function () {
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const myvad = await vad.WorkerRealTimeVAD.new({
+      sampleRate,
+      workerPool,
+      submitUserSpeechOnPause: true,
+    })
+    const events = []
+    myvad.on("speechEnd", () => events.push("speechEnd"))
+    myvad.start()
+    // pause in the middle of the speech segment
+    await myvad.processAudio(audioData.slice(0, Math.floor(2.6 * sampleRate)))
+    await myvad.pause()
+    assert.deepEqual(events, ["speechEnd"])
+    await myvad.reset()
+    await myvad.destroy()
+    await myvad.destroy()
+  })
+
+  it("rejects a create that fails without ending the worker", async function () {
+    const { fetcher, ...v5 } = vad.getModelDescriptor("v5")
+    const worker = workerPool.acquire()
+    const id = worker.register(() => {})
+    let error
+    try {
+      await worker.request({
+        type: "create",
+        id,
+        options: { model: "test-worker-bad" },
+        descriptor: { ...v5, sampleRates: {} },
+      })
+    } catch (e) {
+      error = e
+    }
+    worker.unregister(id)
+    assert.match(error.message, /at least one sample rate/)
+    assert.isFalse(worker.dead)
+
+    const myvad = await vad.WorkerRealTimeVAD.new({ workerPool })
+    await myvad.destroy()
+  })
+
+  it("spreads instances over the pool", async function () {
+    const vads = await Promise.all(
+      [0, 1, 2].map(() => vad.WorkerRealTimeVAD.new({ workerPool }))
+    )
+    assert.equal(workerPool.workerCount, 2)
+    vads.forEach((myvad) => myvad.destroy())
+  })
+
+  it("rejects invalid options from the worker", async function () {
+    let error
+    try {
+      await vad.WorkerRealTimeVAD.new({ workerPool, inputFormat: "s8" })
+    } catch (e) {
+      error = e
+    }
+    assert.instanceOf(error, Error)
+  })
+})
+
+describe("worker realtime vad updateOptions", function () {
+  this.timeout(20000)
+
+  it("updates the worker and replaces callbacks", async function () {
+    const workerPool = new vad.VADWorkerPool({ size: 1 })
+    const [audioData, sampleRate] = loadAudio(audioSamplePath)
+    const events = []
+    const myvad = await vad.WorkerRealTimeVAD.new({ sampleRate, workerPool })
+    myvad.on("optionsChanged", (changes) => events.push(changes))
+    myvad.on("vadMisfire", () => events.push("vadMisfire"))
+    myvad.start()
+    const onSpeechStart = () => events.push("speechStart")
+    await myvad.updateOptions({ minSpeechFrames: 1000, onSpeechStart })
+    try {
+      await myvad.updateOptions({ inputFormat: "s16le" })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.OptionsUpdateError)
+    }
+    for (const chunk of chunked(audioData, 4410)) {
+      await myvad.processAudio(chunk)
+    }
+    await myvad.flush()
+    myvad.destroy()
+    await workerPool.terminate()
+
+    assert.deepEqual(events, [
+      { minSpeechFrames: 1000, onSpeechStart },
+      "speechStart",
+      "vadMisfire",
+    ])
+  })
+
+  it("reports invalid options as a VADConfigError in strict mode", async function () {
+    const workerPool = new vad.VADWorkerPool({ size: 1 })
+    try {
+      await vad.WorkerRealTimeVAD.new({
+        strict: true,
+        workerPool,
+        redemptionFrames: 1.5,
+      })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.VADConfigError)
+      assert.deepEqual(
+        e.violations.map((v) => v.field),
+        ["redemptionFrames"]
+      )
+    }
+    const myvad = await vad.WorkerRealTimeVAD.new({ strict: true, workerPool })
+    try {
+      await myvad.updateOptions({ speechChunkMs: -1 })
+      assert.fail("expected an error")
+    } catch (e) {
+      assert.instanceOf(e, vad.VADConfigError)
+    }
+    myvad.destroy()
+    await workerPool.terminate()
+  })
+})
@@ -1,8 +1,10 @@
 import type { RealTimeVADOptions } from "@ricky0123/vad-web"
 import {
   DEFAULT_MODEL,
+  DURATION_OPTIONS,
   MicVAD,
   getDefaultRealTimeVADOptions,
+  mergeOptions,
 } from "@ricky0123/vad-web"
 import React, { useEffect, useState } from "react"
 
@@ -30,7 +32,11 @@ export const getDefaultReactRealTimeVADOptions = (
 }
 
 const reactOptionKeys = Object.keys(defaultReactOptions)
-const vadOptionKeys = Object.keys(getDefaultRealTimeVADOptions("v5"))
+const vadOptionKeys = [
+  ...Object.keys(getDefaultRealTimeVADOptions("v5")),
+  // durations can be set in either unit, while the defaults hold only one
+  ...DURATION_OPTIONS.flat(),
+]
 
 const _filter = (keys: string[], obj: any) => {
   return keys.reduce((acc, key) => {
@@ -43,7 +49,7 @@ function useOptions(
   options: Partial<ReactRealTimeVADOptions>
 ): [ReactOptions, RealTimeVADOptions] {
   const model = options.model ?? DEFAULT_MODEL
-  options = { ...getDefaultReactRealTimeVADOptions(model), ...options }
+  options = mergeOptions(getDefaultReactRealTimeVADOptions(model), options)
   const reactOptions = _filter(reactOptionKeys, options) as ReactOptions
   const vadOptions = _filter(vadOptionKeys, options) as RealTimeVADOptions
   return [reactOptions, vadOptions]
@@ -72,11 +78,14 @@ export function useMicVAD(options: Partial<ReactRealTimeVADOptions>) {
   const [vad, setVAD] = useState<MicVAD | null>(null)
 
   const userOnFrameProcessed = useEventCallback(vadOptions.onFrameProcessed)
-  vadOptions.onFrameProcessed = useEventCallback((probs, frame) => {
-    const isSpeaking = probs.isSpeech > reactOptions.userSpeakingThreshold
-    updateUserSpeaking(isSpeaking)
-    userOnFrameProcessed(probs, frame)
-  })
+  vadOptions.onFrameProcessed = useEventCallback(
+    (probs, frame, smoothedProbs) => {
+      const isSpeaking =
+        smoothedProbs.isSpeech > reactOptions.userSpeakingThreshold
+      updateUserSpeaking(isSpeaking)
+      userOnFrameProcessed(probs, frame, smoothedProbs)
+    }
+  )
   const { onSpeechEnd, onSpeechStart, onSpeechRealStart, onVADMisfire } =
     vadOptions
   const _onSpeechEnd = useEventCallback(onSpeechEnd)
@@ -6,6 +6,14 @@ were taken (or took inspiration) from https://github.com/snakers4/silero-vad
 import { log } from "./logging"
 import { Message } from "./messages"
 import { SpeechProbabilities } from "./models"
+import {
+  createSmoother,
+  getSmoothingError,
+  NO_SMOOTHING,
+  Smoother,
+  SmoothingOptions,
+} from "./smoothing"
+import { minFramesForTargetMS } from "./utils"
 
 const RECOMMENDED_FRAME_SAMPLES = [512, 1024, 1536]
 
@@ -24,7 +32,10 @@ export interface FrameProcessorOptions {
    * before running `onSpeechEnd`. If the model returns a value over `positiveSpeechThreshold` during this grace period, then
    * the algorithm will consider the previously-detected "speech end" as having been a false negative.
    */
-  redemptionFrames: number
+  redemptionFrames?: number
+
+  /** Same as `redemptionFrames`, in milliseconds. Only one of the two can be set. */
+  redemptionMs?: number
 
   /** Number of audio samples (under a sample rate of 16000) to comprise one "frame" to feed to the Silero VAD model.
    * The `frame` serves as a unit of measurement of lengths of audio segments and many other parameters are defined in terms of
@@ -36,37 +47,129 @@ export interface FrameProcessorOptions {
   frameSamples: number
 
   /** Number of frames to prepend to the audio segment that will be passed to `onSpeechEnd`. */
-  preSpeechPadFrames: number
+  preSpeechPadFrames?: number
+
+  /** Same as `preSpeechPadFrames`, in milliseconds. Only one of the two can be set. */
+  preSpeechPadMs?: number
 
   /** If an audio segment is detected as a speech segment according to initial algorithm but it has fewer than `minSpeechFrames`,
    * it will be discarded and `onVADMisfire` will be run instead of `onSpeechEnd`.
    */
-  minSpeechFrames: number
+  minSpeechFrames?: number
+
+  /** Same as `minSpeechFrames`, in milliseconds. Only one of the two can be set. */
+  minSpeechMs?: number
+
+  /** Number of frames after the last speech frame to keep at the end of the audio passed to `onSpeechEnd`.
+   * The end of speech is still decided after `redemptionFrames`; only the trailing audio beyond this padding is dropped.
+   * When neither this nor `postSpeechPadMs` is set, the whole redemption period is kept.
+   */
+  postSpeechPadFrames?: number
+
+  /** Same as `postSpeechPadFrames`, in milliseconds. Only one of the two can be set. */
+  postSpeechPadMs?: number
 
   /**
    * If true, when the user pauses the VAD, it may trigger `onSpeechEnd`.
    */
   submitUserSpeechOnPause: boolean
+
+  /** Smoothing applied to the speech probabilities before they are compared with the thresholds, so that
+   * single-frame spikes do not start segments: `{ type: "ema", alpha }`, `{ type: "median", frames }`,
+   * `{ type: "hysteresis", minOnFrames, minOffFrames }` or `{ type: "none" }`. Both the raw and the smoothed
+   * probabilities are reported with each processed frame.
+   */
+  smoothing?: SmoothingOptions
+}
+
+/** Durations that can be set in frames or in milliseconds */
+export const DURATION_OPTIONS = [
+  ["redemptionFrames", "redemptionMs"],
+  ["preSpeechPadFrames", "preSpeechPadMs"],
+  ["minSpeechFrames", "minSpeechMs"],
+  ["postSpeechPadFrames", "postSpeechPadMs"],
+] as const
+
+export type DurationOption = (typeof DURATION_OPTIONS)[number]
+
+type DefaultDurations = Partial<Pick<FrameProcessorOptions, DurationOption[1]>>
+
+/**
+ * Durations in milliseconds of options built as defaults, kept under a
+ * symbol so that they survive spreading the defaults into other options
+ */
+const DEFAULT_DURATIONS = Symbol("defaultDurations")
+
+/** Record the durations in milliseconds of `options` as defaults, see `mergeOptions` */
+export function markDefaultDurations<T extends Partial<FrameProcessorOptions>>(
+  options: T
+): T {
+  const durations: DefaultDurations = {}
+  for (const [, msKey] of DURATION_OPTIONS) {
+    durations[msKey] = options[msKey]
+  }
+  return Object.assign(options, { [DEFAULT_DURATIONS]: durations })
 }
 
-export const defaultLegacyFrameProcessorOptions: FrameProcessorOptions = {
-  positiveSpeechThreshold: 0.5,
-  negativeSpeechThreshold: 0.5 - 0.15,
-  preSpeechPadFrames: 1,
-  redemptionFrames: 8,
-  frameSamples: 1536,
-  minSpeechFrames: 3,
-  submitUserSpeechOnPause: false,
+export const defaultLegacyFrameProcessorOptions: FrameProcessorOptions =
+  markDefaultDurations({
+    positiveSpeechThreshold: 0.5,
+    negativeSpeechThreshold: 0.5 - 0.15,
+    preSpeechPadMs: 96,
+    redemptionMs: 768,
+    frameSamples: 1536,
+    minSpeechMs: 288,
+    submitUserSpeechOnPause: false,
+    smoothing: NO_SMOOTHING,
+  })
+
+export const defaultV5FrameProcessorOptions: FrameProcessorOptions =
+  markDefaultDurations({
+    positiveSpeechThreshold: 0.5,
+    negativeSpeechThreshold: 0.5 - 0.15,
+    preSpeechPadMs: 96,
+    redemptionMs: 768,
+    frameSamples: 512,
+    minSpeechMs: 288,
+    submitUserSpeechOnPause: false,
+    smoothing: NO_SMOOTHING,
+  })
+
+/** A duration of `options` in frames, converting it if it was set in milliseconds */
+export function getDurationFrames(
+  options: FrameProcessorOptions,
+  [framesKey, msKey]: DurationOption
+): number {
+  const frames = options[framesKey]
+  if (frames !== undefined) return frames
+  return minFramesForTargetMS(options[msKey] ?? 0, options.frameSamples)
 }
 
-export const defaultV5FrameProcessorOptions: FrameProcessorOptions = {
-  positiveSpeechThreshold: 0.5,
-  negativeSpeechThreshold: 0.5 - 0.15,
-  preSpeechPadFrames: 3,
-  redemptionFrames: 24,
-  frameSamples: 512,
-  minSpeechFrames: 9,
-  submitUserSpeechOnPause: false,
+/**
+ * Apply `changes` to `options`. The unit of each duration is decided by the
+ * keys set in `changes`: a duration set there in one unit replaces the same
+ * duration of `options` in the other unit, and one set there in both units
+ * is a conflict. Defaults spread into `changes` do not count as set, so a
+ * frame count set over them replaces their duration in milliseconds.
+ */
+export function mergeOptions<T extends Partial<FrameProcessorOptions>>(
+  options: T,
+  changes: Partial<T>
+): T {
+  const merged = { ...options }
+  const set = { ...changes }
+  const defaults: DefaultDurations =
+    (changes as { [DEFAULT_DURATIONS]?: DefaultDurations })[
+      DEFAULT_DURATIONS
+    ] ?? {}
+  for (const [framesKey, msKey] of DURATION_OPTIONS) {
+    if (set[framesKey] !== undefined && set[msKey] === defaults[msKey]) {
+      delete set[msKey]
+    }
+    if (set[framesKey] !== undefined) delete merged[msKey]
+    if (set[msKey] !== undefined) delete merged[framesKey]
+  }
+  return Object.assign(merged, set)
 }
 
 export function validateOptions(options: FrameProcessorOptions) {
@@ -87,11 +190,20 @@ export function validateOptions(options: FrameProcessorOptions) {
       "negativeSpeechThreshold should be between 0 and positiveSpeechThreshold"
     )
   }
-  if (options.preSpeechPadFrames < 0) {
-    log.error("preSpeechPadFrames should be positive")
+  const smoothingError = getSmoothingError(options.smoothing ?? NO_SMOOTHING)
+  if (smoothingError !== null) {
+    log.error(smoothingError)
   }
-  if (options.redemptionFrames < 0) {
-    log.error("redemptionFrames should be positive")
+  for (const [framesKey, msKey] of DURATION_OPTIONS) {
+    const frames = options[framesKey]
+    const ms = options[msKey]
+    if (frames !== undefined && ms !== undefined) {
+      log.error(`${framesKey} and ${msKey} cannot both be set`)
+    } else if ((frames ?? ms ?? 0) < 0) {
+      log.error(
+        `${frames !== undefined ? framesKey : msKey} should be positive`
+      )
+    }
   }
 }
 
@@ -130,6 +242,9 @@ export class FrameProcessor implements FrameProcessorInterface {
   speechFrameCount = 0
   active = false
   speechRealStartFired = false
+  private smoother: Smoother = createSmoother(NO_SMOOTHING)
+  /** Options `smoother` was created from */
+  private smoothing: SmoothingOptions = NO_SMOOTHING
 
   constructor(
     public modelProcessFunc: (
@@ -147,6 +262,7 @@ export class FrameProcessor implements FrameProcessorInterface {
     this.speechRealStartFired = false
     this.audioBuffer = []
     this.modelResetFunc()
+    this.smoother.reset()
     this.redemptionCounter = 0
     this.speechFrameCount = 0
   }
@@ -164,6 +280,52 @@ export class FrameProcessor implements FrameProcessorInterface {
     this.active = true
   }
 
+  /** `redemptionFrames`, or `redemptionMs` in frames */
+  get redemptionFrames(): number {
+    return getDurationFrames(this.options, DURATION_OPTIONS[0])
+  }
+
+  /** `preSpeechPadFrames`, or `preSpeechPadMs` in frames */
+  get preSpeechPadFrames(): number {
+    return getDurationFrames(this.options, DURATION_OPTIONS[1])
+  }
+
+  /** `minSpeechFrames`, or `minSpeechMs` in frames */
+  get minSpeechFrames(): number {
+    return getDurationFrames(this.options, DURATION_OPTIONS[2])
+  }
+
+  /** `postSpeechPadFrames`, or `postSpeechPadMs` in frames; unlimited when neither is set */
+  get postSpeechPadFrames(): number {
+    const { postSpeechPadFrames, postSpeechPadMs } = this.options
+    if (postSpeechPadFrames === undefined && postSpeechPadMs === undefined) {
+      return Infinity
+    }
+    return getDurationFrames(this.options, DURATION_OPTIONS[3])
+  }
+
+  /** Smoother for the current `smoothing` option, recreated when it is changed */
+  private getSmoother = (): Smoother => {
+    const { smoothing = NO_SMOOTHING } = this.options
+    if (smoothing !== this.smoothing) {
+      this.smoothing = smoothing
+      this.smoother = createSmoother(smoothing)
+    }
+    return this.smoother
+  }
+
+  /** Drop the frames more than `postSpeechPadFrames` after the last speech frame */
+  private trimTrailing = (
+    audioBuffer: { frame: Float32Array; isSpeech: boolean }[]
+  ) => {
+    let lastSpeech = audioBuffer.length - 1
+    while (lastSpeech >= 0 && !audioBuffer[lastSpeech]?.isSpeech) {
+      lastSpeech--
+    }
+    if (lastSpeech < 0) return audioBuffer
+    return audioBuffer.slice(0, lastSpeech + 1 + this.postSpeechPadFrames)
+  }
+
   endSegment = (handleEvent: (event: FrameProcessorEvent) => any) => {
     const audioBuffer = this.audioBuffer
     this.audioBuffer = []
@@ -172,10 +334,12 @@ export class FrameProcessor implements FrameProcessorInterface {
 
     if (speaking) {
       const speechFrameCount = audioBuffer.reduce((acc, item) => {
-        return item.isSpeech ? (acc + 1) : acc
+        return item.isSpeech ? acc + 1 : acc
       }, 0)
-      if (speechFrameCount >= this.options.minSpeechFrames) {
-        const audio = concatArrays(audioBuffer.map((item) => item.frame))
+      if (speechFrameCount >= this.minSpeechFrames) {
+        const audio = concatArrays(
+          this.trimTrailing(audioBuffer).map((item) => item.frame)
+        )
         handleEvent({ msg: Message.SpeechEnd, audio })
       } else {
         handleEvent({ msg: Message.VADMisfire })
@@ -193,9 +357,15 @@ export class FrameProcessor implements FrameProcessorInterface {
     }
 
     const probs = await this.modelProcessFunc(frame)
-    const isSpeech = probs.isSpeech >= this.options.positiveSpeechThreshold
+    const probability = this.getSmoother().smooth(probs.isSpeech, this.options)
+    const isSpeech = probability >= this.options.positiveSpeechThreshold
 
-    handleEvent({ probs, msg: Message.FrameProcessed, frame })
+    handleEvent({
+      probs,
+      smoothedProbs: { isSpeech: probability, notSpeech: 1 - probability },
+      msg: Message.FrameProcessed,
+      frame,
+    })
 
     this.audioBuffer.push({
       frame,
@@ -214,7 +384,7 @@ export class FrameProcessor implements FrameProcessorInterface {
 
     if (
       this.speaking &&
-      this.speechFrameCount === this.options.minSpeechFrames &&
+      this.speechFrameCount === this.minSpeechFrames &&
       !this.speechRealStartFired
     ) {
       this.speechRealStartFired = true
@@ -222,9 +392,9 @@ export class FrameProcessor implements FrameProcessorInterface {
     }
 
     if (
-      probs.isSpeech < this.options.negativeSpeechThreshold &&
+      probability < this.options.negativeSpeechThreshold &&
       this.speaking &&
-      ++this.redemptionCounter >= this.options.redemptionFrames
+      ++this.redemptionCounter >= this.redemptionFrames
     ) {
       this.redemptionCounter = 0
       this.speechFrameCount = 0
@@ -234,11 +404,13 @@ export class FrameProcessor implements FrameProcessorInterface {
       this.audioBuffer = []
 
       const speechFrameCount = audioBuffer.reduce((acc, item) => {
-        return item.isSpeech ? (acc + 1) : acc
+        return item.isSpeech ? acc + 1 : acc
       }, 0)
 
-      if (speechFrameCount >= this.options.minSpeechFrames) {
-        const audio = concatArrays(audioBuffer.map((item) => item.frame))
+      if (speechFrameCount >= this.minSpeechFrames) {
+        const audio = concatArrays(
+          this.trimTrailing(audioBuffer).map((item) => item.frame)
+        )
         handleEvent({ msg: Message.SpeechEnd, audio })
       } else {
         handleEvent({ msg: Message.VADMisfire })
@@ -246,7 +418,7 @@ export class FrameProcessor implements FrameProcessorInterface {
     }
 
     if (!this.speaking) {
-      while (this.audioBuffer.length > this.options.preSpeechPadFrames) {
+      while (this.audioBuffer.length > this.preSpeechPadFrames) {
         this.audioBuffer.shift()
       }
       this.speechFrameCount = 0
@@ -270,6 +442,9 @@ export type FrameProcessorEvent =
     }
   | {
       msg: Message.FrameProcessed
+      /** Probabilities returned by the model */
       probs: SpeechProbabilities
+      /** Probabilities after `smoothing`, compared with the thresholds */
+      smoothedProbs: SpeechProbabilities
       frame: Float32Array
     }
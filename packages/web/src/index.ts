@@ -1,10 +1,17 @@
 export { baseAssetPath } from "./asset-path"
 export { defaultModelFetcher } from "./default-model-fetcher"
-export { FrameProcessor } from "./frame-processor"
+export {
+  DURATION_OPTIONS,
+  FrameProcessor,
+  mergeOptions,
+} from "./frame-processor"
 export type { FrameProcessorOptions } from "./frame-processor"
 export { Message } from "./messages"
 export { NonRealTimeVAD } from "./non-real-time-vad"
 export type { NonRealTimeVADOptions } from "./non-real-time-vad"
+export { QueueOverflowError } from "./processing-queue"
+export type { OverflowPolicy, QueueOverflow } from "./processing-queue"
+export type { SmoothingOptions } from "./smoothing"
 import {
   arrayBufferToBase64,
   audioFileToArray,
@@ -22,7 +29,7 @@ export const utils = {
 export {
   AudioNodeVAD,
   DEFAULT_MODEL,
-  MicVAD,
   getDefaultRealTimeVADOptions,
+  MicVAD,
 } from "./real-time-vad"
 export type { RealTimeVADOptions } from "./real-time-vad"
@@ -8,6 +8,7 @@ import {
   FrameProcessorEvent,
   FrameProcessorInterface,
   FrameProcessorOptions,
+  mergeOptions,
   validateOptions,
 } from "./frame-processor"
 import { Message } from "./messages"
@@ -36,10 +37,7 @@ export const defaultNonRealTimeVADOptions: NonRealTimeVADOptions = {
 
 export class NonRealTimeVAD {
   static async new(options: Partial<NonRealTimeVADOptions> = {}) {
-    const fullOptions = {
-      ...defaultNonRealTimeVADOptions,
-      ...options,
-    }
+    const fullOptions = mergeOptions(defaultNonRealTimeVADOptions, options)
     validateOptions(fullOptions)
 
     if (fullOptions.ortConfig !== undefined) {
@@ -56,9 +54,15 @@ export class NonRealTimeVAD {
         positiveSpeechThreshold: fullOptions.positiveSpeechThreshold,
         negativeSpeechThreshold: fullOptions.negativeSpeechThreshold,
         redemptionFrames: fullOptions.redemptionFrames,
+        redemptionMs: fullOptions.redemptionMs,
         preSpeechPadFrames: fullOptions.preSpeechPadFrames,
+        preSpeechPadMs: fullOptions.preSpeechPadMs,
         minSpeechFrames: fullOptions.minSpeechFrames,
+        minSpeechMs: fullOptions.minSpeechMs,
+        postSpeechPadFrames: fullOptions.postSpeechPadFrames,
+        postSpeechPadMs: fullOptions.postSpeechPadMs,
         submitUserSpeechOnPause: fullOptions.submitUserSpeechOnPause,
+        smoothing: fullOptions.smoothing,
       }
     )
     frameProcessor.resume()
@@ -6,6 +6,7 @@ import {
   FrameProcessorOptions,
   defaultLegacyFrameProcessorOptions,
   defaultV5FrameProcessorOptions,
+  mergeOptions,
   validateOptions,
 } from "./frame-processor"
 import { log } from "./logging"
@@ -18,15 +19,23 @@ import {
   SileroV5,
   SpeechProbabilities,
 } from "./models"
+import {
+  ProcessingQueue,
+  ProcessingQueueOptions,
+  QueueOverflow,
+} from "./processing-queue"
 import { Resampler } from "./resampler"
 
 export const DEFAULT_MODEL = "legacy"
 
 interface RealTimeVADCallbacks {
-  /** Callback to run after each frame. The size (number of samples) of a frame is given by `frameSamples`. */
+  /** Callback to run after each frame. The size (number of samples) of a frame is given by `frameSamples`.
+   * `smoothedProbabilities` are the probabilities compared with the thresholds after `smoothing`.
+   */
   onFrameProcessed: (
     probabilities: SpeechProbabilities,
-    frame: Float32Array
+    frame: Float32Array,
+    smoothedProbabilities: SpeechProbabilities
   ) => any
 
   /** Callback to run if speech start was detected but `onSpeechEnd` will not be run because the
@@ -46,6 +55,13 @@ interface RealTimeVADCallbacks {
 
   /** Callback to run when speech is detected as valid. (i.e. not a misfire) */
   onSpeechRealStart: () => any
+
+  /**
+   * Callback to run when a frame arrives while `maxQueueLength` frames are
+   * already waiting to be processed. What happens to the frame depends on
+   * `overflowPolicy`.
+   */
+  onOverflow: (overflow: QueueOverflow<Float32Array>) => any
 }
 
 /**
@@ -69,6 +85,7 @@ type ModelOptions = {
 
 interface RealTimeVADOptionsWithoutStream
   extends FrameProcessorOptions,
+    ProcessingQueueOptions,
     RealTimeVADCallbacks,
     OrtOptions,
     AssetOptions,
@@ -79,6 +96,7 @@ interface RealTimeVADOptionsWithoutStream
 
 interface RealTimeVADOptionsWithStream
   extends FrameProcessorOptions,
+    ProcessingQueueOptions,
     RealTimeVADCallbacks,
     OrtOptions,
     AssetOptions,
@@ -118,6 +136,11 @@ export const getDefaultRealTimeVADOptions: (
     onSpeechRealStart: () => {
       log.debug("Detected real speech start")
     },
+    onOverflow: ({ policy, queueLength }) => {
+      log.warn(`Frame queue overflow (${queueLength} waiting, ${policy})`)
+    },
+    maxQueueLength: Infinity,
+    overflowPolicy: "block",
     baseAssetPath:
       "https://cdn.jsdelivr.net/npm/@ricky0123/vad-web@latest/dist/",
     onnxWASMBasePath:
@@ -131,10 +154,10 @@ export const getDefaultRealTimeVADOptions: (
 
 export class MicVAD {
   static async new(options: Partial<RealTimeVADOptions> = {}) {
-    const fullOptions: RealTimeVADOptions = {
-      ...getDefaultRealTimeVADOptions(options.model ?? DEFAULT_MODEL),
-      ...options,
-    }
+    const fullOptions = mergeOptions(
+      getDefaultRealTimeVADOptions(options.model ?? DEFAULT_MODEL),
+      options
+    )
     validateOptions(fullOptions)
 
     let stream: MediaStream
@@ -177,8 +200,8 @@ export class MicVAD {
   ) {}
 
   pause = () => {
-    this.audioNodeVAD.pause()
     this.listening = false
+    return this.audioNodeVAD.pause()
   }
 
   start = () => {
@@ -187,14 +210,16 @@ export class MicVAD {
   }
 
   destroy = () => {
-    if (this.listening) {
-      this.pause()
-    }
     if (this.options.stream === undefined) {
       this.stream.getTracks().forEach((track) => track.stop())
     }
     this.sourceNode.disconnect()
     this.audioNodeVAD.destroy()
+    // after destroy has dropped the waiting frames, so that the pause runs
+    // once the frame being processed is done
+    if (this.listening) {
+      this.pause()
+    }
     this.audioContext.close()
   }
 
@@ -210,15 +235,16 @@ export class AudioNodeVAD {
   private frameProcessor: FrameProcessor
   private gainNode?: GainNode
   private resampler?: Resampler
+  private queue: ProcessingQueue<Float32Array>
 
   static async new(
     ctx: AudioContext,
     options: Partial<RealTimeVADOptions> = {}
   ) {
-    const fullOptions: RealTimeVADOptions = {
-      ...getDefaultRealTimeVADOptions(options.model ?? DEFAULT_MODEL),
-      ...options,
-    } as RealTimeVADOptions
+    const fullOptions = mergeOptions(
+      getDefaultRealTimeVADOptions(options.model ?? DEFAULT_MODEL),
+      options
+    )
     validateOptions(fullOptions)
 
     ort.env.wasm.wasmPaths = fullOptions.onnxWASMBasePath
@@ -247,9 +273,15 @@ export class AudioNodeVAD {
         positiveSpeechThreshold: fullOptions.positiveSpeechThreshold,
         negativeSpeechThreshold: fullOptions.negativeSpeechThreshold,
         redemptionFrames: fullOptions.redemptionFrames,
+        redemptionMs: fullOptions.redemptionMs,
         preSpeechPadFrames: fullOptions.preSpeechPadFrames,
+        preSpeechPadMs: fullOptions.preSpeechPadMs,
         minSpeechFrames: fullOptions.minSpeechFrames,
+        minSpeechMs: fullOptions.minSpeechMs,
+        postSpeechPadFrames: fullOptions.postSpeechPadFrames,
+        postSpeechPadMs: fullOptions.postSpeechPadMs,
         submitUserSpeechOnPause: fullOptions.submitUserSpeechOnPause,
+        smoothing: fullOptions.smoothing,
       }
     )
 
@@ -264,6 +296,14 @@ export class AudioNodeVAD {
     frameProcessor: FrameProcessor
   ) {
     this.frameProcessor = frameProcessor
+    this.queue = new ProcessingQueue(
+      this.processQueuedFrame,
+      {
+        maxQueueLength: options.maxQueueLength,
+        overflowPolicy: options.overflowPolicy,
+      },
+      (overflow) => this.options.onOverflow(overflow)
+    )
   }
 
   private async setupAudioNode() {
@@ -296,7 +336,9 @@ export class AudioNodeVAD {
                 new Uint8Array(buffer).set(new Uint8Array(ev.data.data))
               }
               const frame = new Float32Array(buffer)
-              await this.processFrame(frame)
+              this.processFrame(frame).catch((e) =>
+                log.error("Error processing audio frame:", e)
+              )
               break
           }
         }
@@ -324,31 +366,25 @@ export class AudioNodeVAD {
     // Create a gain node with zero gain to handle the audio chain
     this.gainNode = this.ctx.createGain()
     this.gainNode.gain.value = 0
-
-    let processingAudio = false
-
-    ;(this.audioNode as ScriptProcessorNode).onaudioprocess = async (
+    ;(this.audioNode as ScriptProcessorNode).onaudioprocess = (
       e: AudioProcessingEvent
     ) => {
-      if (processingAudio) return
-      processingAudio = true
-
       try {
         const input = e.inputBuffer.getChannelData(0)
         const output = e.outputBuffer.getChannelData(0)
         output.fill(0)
 
-        // Process through resampler
+        // Process through resampler; frames are queued in order
         if (this.resampler) {
           const frames = this.resampler.process(input)
           for (const frame of frames) {
-            await this.processFrame(frame)
+            this.processFrame(frame).catch((error) =>
+              log.error("Error processing audio frame:", error)
+            )
           }
         }
       } catch (error) {
-        console.error("Error processing audio:", error)
-      } finally {
-        processingAudio = false
+        log.error("Error processing audio:", error)
       }
     }
 
@@ -357,26 +393,50 @@ export class AudioNodeVAD {
     this.gainNode.connect(this.ctx.destination)
   }
 
+  /**
+   * Pause once the frame being processed is done; may end the segment. Frames
+   * queued after the pause are ignored.
+   */
   pause = () => {
-    this.frameProcessor.pause(this.handleFrameProcessorEvent)
+    return this.queue.run(async () => {
+      this.frameProcessor.pause(this.handleFrameProcessorEvent)
+    })
   }
 
+  /** Resume after the frames and the pause already waiting to be processed */
   start = () => {
-    this.frameProcessor.resume()
+    if (this.queue.busy) {
+      this.queue.run(async () => this.frameProcessor.resume())
+    } else {
+      this.frameProcessor.resume()
+    }
   }
 
   receive = (node: AudioNode) => {
     node.connect(this.audioNode)
   }
 
+  /**
+   * Queue a frame for processing. Frames are processed one at a time in the
+   * order they are received; `maxQueueLength` and `overflowPolicy` decide what
+   * happens when they arrive faster than they can be processed.
+   */
   processFrame = async (frame: Float32Array) => {
+    await this.queue.push(frame)
+  }
+
+  private processQueuedFrame = async (frame: Float32Array) => {
     await this.frameProcessor.process(frame, this.handleFrameProcessorEvent)
   }
 
   handleFrameProcessorEvent = (ev: FrameProcessorEvent) => {
     switch (ev.msg) {
       case Message.FrameProcessed:
-        this.options.onFrameProcessed(ev.probs, ev.frame as Float32Array)
+        this.options.onFrameProcessed(
+          ev.probs,
+          ev.frame as Float32Array,
+          ev.smoothedProbs
+        )
         break
 
       case Message.SpeechStart:
@@ -398,6 +458,7 @@ export class AudioNodeVAD {
   }
 
   destroy = () => {
+    this.queue.clear()
     if (this.audioNode instanceof AudioWorkletNode) {
       this.audioNode.port.postMessage({
         message: Message.SpeechStop,
@@ -408,9 +469,9 @@ export class AudioNodeVAD {
   }
 
   setFrameProcessorOptions = (options) => {
-    this.frameProcessor.options = {
-      ...this.frameProcessor.options,
-      ...options,
-    }
+    this.frameProcessor.options = mergeOptions(
+      this.frameProcessor.options,
+      options
+    )
   }
 }
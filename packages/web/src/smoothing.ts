@@ -0,0 +1,192 @@
+/**
+ * Smoothing of the speech probabilities before they are compared with the
+ * thresholds:
+ * - `none`: the probabilities returned by the model
+ * - `ema`: exponential moving average giving the newest frame a weight of `alpha`
+ * - `median`: median of the last `frames` frames
+ * - `hysteresis`: a frame over `positiveSpeechThreshold` only counts once
+ *   `minOnFrames` consecutive frames are, and likewise a frame under
+ *   `negativeSpeechThreshold` with `minOffFrames`; meanwhile the last
+ *   probability on the side of the thresholds reached before is repeated
+ */
+export type SmoothingOptions =
+  | { type: "none" }
+  | { type: "ema"; alpha: number }
+  | { type: "median"; frames: number }
+  | { type: "hysteresis"; minOnFrames: number; minOffFrames: number }
+
+/** Thresholds the smoothed probabilities are compared with */
+export interface SmoothingThresholds {
+  positiveSpeechThreshold: number
+  negativeSpeechThreshold: number
+}
+
+/** What a smoother remembers of the previous frames, as plain data */
+export interface SmootherState {
+  average?: number | null
+  window?: number[]
+  on?: boolean
+  count?: number
+  held?: number
+}
+
+/** Smoothing stage of a frame processor, fed the probability of every frame in order */
+export interface Smoother {
+  smooth(probability: number, thresholds: SmoothingThresholds): number
+  /** Forget previous frames, along with the model state */
+  reset(): void
+  getState(): SmootherState
+  restoreState(state: SmootherState): void
+}
+
+export const NO_SMOOTHING: SmoothingOptions = { type: "none" }
+
+const isCount = (value: unknown): boolean =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1
+
+/** What is wrong with `smoothing`, or null if it is valid */
+export function getSmoothingError(smoothing: SmoothingOptions): string | null {
+  switch (smoothing?.type) {
+    case "none":
+      return null
+    case "ema":
+      return typeof smoothing.alpha === "number" &&
+        smoothing.alpha > 0 &&
+        smoothing.alpha <= 1
+        ? null
+        : `smoothing.alpha should be greater than 0 and at most 1, got ${smoothing.alpha}`
+    case "median":
+      return isCount(smoothing.frames)
+        ? null
+        : `smoothing.frames should be a positive integer, got ${smoothing.frames}`
+    case "hysteresis":
+      return isCount(smoothing.minOnFrames) && isCount(smoothing.minOffFrames)
+        ? null
+        : `smoothing.minOnFrames and smoothing.minOffFrames should be positive integers, got ${smoothing.minOnFrames} and ${smoothing.minOffFrames}`
+    default:
+      return `smoothing.type should be one of none, ema, median or hysteresis, got ${String(
+        (smoothing as { type?: unknown } | undefined)?.type
+      )}`
+  }
+}
+
+class EmaSmoother implements Smoother {
+  private average: number | null = null
+
+  constructor(private alpha: number) {}
+
+  smooth(probability: number): number {
+    this.average =
+      this.average === null
+        ? probability
+        : this.average + this.alpha * (probability - this.average)
+    return this.average
+  }
+
+  reset(): void {
+    this.average = null
+  }
+
+  getState(): SmootherState {
+    return { average: this.average }
+  }
+
+  restoreState(state: SmootherState): void {
+    this.average = state.average ?? null
+  }
+}
+
+class MedianSmoother implements Smoother {
+  private window: number[] = []
+
+  constructor(private frames: number) {}
+
+  smooth(probability: number): number {
+    this.window.push(probability)
+    if (this.window.length > this.frames) this.window.shift()
+    const sorted = this.window.slice().sort((a, b) => a - b)
+    const middle = sorted.length >> 1
+    return sorted.length % 2 === 1
+      ? (sorted[middle] as number)
+      : ((sorted[middle - 1] as number) + (sorted[middle] as number)) / 2
+  }
+
+  reset(): void {
+    this.window = []
+  }
+
+  getState(): SmootherState {
+    return { window: this.window.slice() }
+  }
+
+  restoreState(state: SmootherState): void {
+    this.window = (state.window ?? []).slice()
+  }
+}
+
+class HysteresisSmoother implements Smoother {
+  /** Whether the last threshold reached was the positive one */
+  private on = false
+  /** Consecutive frames past the other threshold */
+  private count = 0
+  private held = 0
+
+  constructor(private minOnFrames: number, private minOffFrames: number) {}
+
+  smooth(probability: number, thresholds: SmoothingThresholds): number {
+    const crossing = this.on
+      ? probability < thresholds.negativeSpeechThreshold
+      : probability >= thresholds.positiveSpeechThreshold
+    if (!crossing) {
+      this.count = 0
+      this.held = probability
+      return probability
+    }
+    if (++this.count < (this.on ? this.minOffFrames : this.minOnFrames)) {
+      return this.held
+    }
+    this.on = !this.on
+    this.count = 0
+    this.held = probability
+    return probability
+  }
+
+  reset(): void {
+    this.on = false
+    this.count = 0
+    this.held = 0
+  }
+
+  getState(): SmootherState {
+    return { on: this.on, count: this.count, held: this.held }
+  }
+
+  restoreState(state: SmootherState): void {
+    this.on = state.on ?? false
+    this.count = state.count ?? 0
+    this.held = state.held ?? 0
+  }
+}
+
+/** Smoother for `smoothing`; invalid options, reported by validation, disable smoothing */
+export function createSmoother(smoothing: SmoothingOptions): Smoother {
+  if (getSmoothingError(smoothing) === null) {
+    switch (smoothing.type) {
+      case "ema":
+        return new EmaSmoother(smoothing.alpha)
+      case "median":
+        return new MedianSmoother(smoothing.frames)
+      case "hysteresis":
+        return new HysteresisSmoother(
+          smoothing.minOnFrames,
+          smoothing.minOffFrames
+        )
+    }
+  }
+  return {
+    smooth: (probability) => probability,
+    reset: () => {},
+    getState: () => ({}),
+    restoreState: () => {},
+  }
+}
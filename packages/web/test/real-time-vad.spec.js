@@ -0,0 +1,49 @@
+const { assert } = require("chai")
+const { FrameProcessor } = require("../dist/frame-processor")
+const {
+  AudioNodeVAD,
+  getDefaultRealTimeVADOptions,
+} = require("../dist/real-time-vad")
+
+describe("audio node vad", function () {
+  function createVAD(model, events) {
+    const options = {
+      ...getDefaultRealTimeVADOptions("v5"),
+      minSpeechFrames: 1,
+      submitUserSpeechOnPause: true,
+      onFrameProcessed: () => events.push("frameProcessed"),
+      onSpeechStart: () => events.push("speechStart"),
+      onSpeechRealStart: () => events.push("speechRealStart"),
+      onSpeechEnd: () => events.push("speechEnd"),
+      onVADMisfire: () => events.push("vadMisfire"),
+    }
+    const frameProcessor = new FrameProcessor(model, () => {}, options)
+    return new AudioNodeVAD({}, options, frameProcessor)
+  }
+
+  it("pauses after the frame being processed", async function () {
+    const events = []
+    let finishFrame
+    const model = () =>
+      new Promise((resolve) => {
+        finishFrame = () => resolve({ isSpeech: 0.9, notSpeech: 0.1 })
+      })
+    const vad = createVAD(model, events)
+    vad.start()
+    const processed = vad.processFrame(new Float32Array(512))
+    await Promise.resolve()
+    const paused = vad.pause()
+    finishFrame()
+    await Promise.all([processed, paused])
+    assert.deepEqual(events, [
+      "frameProcessed",
+      "speechStart",
+      "speechRealStart",
+      "speechEnd",
+    ])
+
+    // frames arriving while paused are ignored
+    await vad.processFrame(new Float32Array(512))
+    assert.lengthOf(events, 4)
+  })
+})
@@ -25,9 +25,9 @@ const parsers: Partial<
   positiveSpeechThreshold: (val: string) => parseFloat(val),
   negativeSpeechThreshold: (val: string) => parseFloat(val),
   frameSamples: (val: string) => parseInt(val),
-  redemptionFrames: (val: string) => parseInt(val),
-  preSpeechPadFrames: (val: string) => parseInt(val),
-  minSpeechFrames: (val: string) => parseInt(val),
+  redemptionMs: (val: string) => parseFloat(val),
+  preSpeechPadMs: (val: string) => parseFloat(val),
+  minSpeechMs: (val: string) => parseFloat(val),
   startOnLoad: (val: string) => val === 'true',
   userSpeakingThreshold: (val: string) => parseFloat(val),
 }